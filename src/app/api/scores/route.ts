@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getScoreStore } from '@/lib/server/scoreStore';
+import { isKnownGame, validateScoreSubmission } from '@/lib/scoreValidation';
+
+export const runtime = 'nodejs';
+
+/** GET /api/scores?game=pacman[&limit=10] – best-first shared leaderboard. */
+export async function GET(request: NextRequest) {
+  const game = request.nextUrl.searchParams.get('game') ?? '';
+  if (!isKnownGame(game)) {
+    return NextResponse.json({ error: 'Unknown game' }, { status: 400 });
+  }
+  const limit = Math.min(Math.max(Number(request.nextUrl.searchParams.get('limit')) || 10, 1), 100);
+
+  const scores = await getScoreStore().list(game, limit);
+  return NextResponse.json({ scores });
+}
+
+/** POST /api/scores – `{ game, name, score, durationMs }`; rejects implausible scores with 422. */
+export async function POST(request: NextRequest) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Expected a JSON object' }, { status: 400 });
+  }
+
+  const result = validateScoreSubmission(body);
+  if (!result.ok) {
+    return NextResponse.json({ error: result.error }, { status: 422 });
+  }
+
+  const record = await getScoreStore().add(result.value);
+  return NextResponse.json({ score: record }, { status: 201 });
+}
@@ -0,0 +1,23 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import LevelEditor from '@/components/LevelEditor';
+
+export const metadata: Metadata = {
+  title: 'Level editor | Apex Games',
+  description: 'Design Pac-Man maze levels and play-test them in the browser.',
+};
+
+export default function EditorPage() {
+  return (
+    <main className="flex flex-col items-center min-h-screen p-4 sm:p-12 gap-6 bg-gradient-to-b from-sky-50 to-sky-100">
+      <h1 className="text-2xl font-bold">Pac-Man level editor</h1>
+      <p className="text-sm text-center max-w-xl">
+        Pick a tool and paint on the grid. Play-test the maze right here, then export it as a level file.
+      </p>
+      <LevelEditor />
+      <Link href="/" className="text-sm text-sky-700 hover:underline">
+        ← All games
+      </Link>
+    </main>
+  );
+}
@@ -0,0 +1,40 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import GlobalLeaderboard from '@/components/GlobalLeaderboard';
+import Leaderboard from '@/components/Leaderboard';
+import { findGame, GAMES } from '@/lib/games';
+
+type Props = { params: Promise<{ slug: string }> };
+
+export function generateStaticParams() {
+  return GAMES.map((g) => ({ slug: g.slug }));
+}
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const game = findGame((await params).slug);
+  return game ? { title: `${game.title} leaderboard | Apex Games` } : {};
+}
+
+export default async function LeaderboardPage({ params }: Props) {
+  const game = findGame((await params).slug);
+  if (!game) notFound();
+
+  return (
+    <main className="flex flex-col items-center min-h-screen p-4 sm:p-12 gap-6 bg-gradient-to-b from-sky-50 to-sky-100">
+      <h1 className="text-2xl font-bold">{game.title} leaderboard</h1>
+      <h2 className="text-lg font-semibold">This device</h2>
+      <Leaderboard game={game.slug} />
+      <h2 className="text-lg font-semibold">Everyone</h2>
+      <GlobalLeaderboard game={game.slug} />
+      <div className="flex gap-4 text-sm">
+        <Link href={`/games/${game.slug}`} className="text-sky-700 hover:underline">
+          Play {game.title}
+        </Link>
+        <Link href="/" className="text-sky-700 hover:underline">
+          All games
+        </Link>
+      </div>
+    </main>
+  );
+}
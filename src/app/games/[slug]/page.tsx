@@ -0,0 +1,47 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import AchievementToasts from '@/components/AchievementToasts';
+import AudioSettings from '@/components/AudioSettings';
+import ControlsSettings from '@/components/ControlsSettings';
+import { findGame, GAMES } from '@/lib/games';
+
+type Props = { params: Promise<{ slug: string }> };
+
+export function generateStaticParams() {
+  return GAMES.map((g) => ({ slug: g.slug }));
+}
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const game = findGame((await params).slug);
+  return game ? { title: `${game.title} | Apex Games`, description: game.description } : {};
+}
+
+export default async function GamePage({ params }: Props) {
+  const game = findGame((await params).slug);
+  if (!game) notFound();
+
+  const Game = game.component;
+  return (
+    <main className="flex flex-col items-center justify-center min-h-screen p-4 sm:p-12 gap-4 bg-gradient-to-b from-sky-50 to-sky-100">
+      <Game />
+      <AchievementToasts />
+      <ControlsSettings actions={game.actions} />
+      <AudioSettings />
+      <div className="flex gap-4 text-sm">
+        <Link href="/" className="text-sky-700 hover:underline">
+          ← All games
+        </Link>
+        <Link href={`/games/${game.slug}/leaderboard`} className="text-sky-700 hover:underline">
+          Leaderboard
+        </Link>
+        <Link href={`/games/${game.slug}/stats`} className="text-sky-700 hover:underline">
+          Stats
+        </Link>
+        <Link href={`/games/${game.slug}/replay`} className="text-sky-700 hover:underline">
+          Replays
+        </Link>
+      </div>
+    </main>
+  );
+}
@@ -13,8 +13,8 @@ const geistMono = Geist_Mono({
 });
 
 export const metadata: Metadata = {
-  title: "Create Next App",
-  description: "Generated by create next app",
+  title: "Apex Games",
+  description: "Pac-Man and Flappy Bird mini-games",
 };
 
 export default function RootLayout({
@@ -1,11 +1,30 @@
-'use client';
-
-import PacmanGame from "@/components/PacmanGame";
+import Image from 'next/image';
+import Link from 'next/link';
+import { GAMES } from '@/lib/games';
 
 export default function Home() {
   return (
-    <main className="flex items-center justify-center min-h-screen p-4 sm:p-12 bg-gradient-to-b from-sky-50 to-sky-100">
-      <PacmanGame />
+    <main className="flex flex-col items-center min-h-screen p-4 sm:p-12 gap-8 bg-gradient-to-b from-sky-50 to-sky-100">
+      <h1 className="text-3xl font-bold">Apex Games</h1>
+      <ul className="grid gap-6 sm:grid-cols-2 w-full max-w-2xl">
+        {GAMES.map((game) => (
+          <li key={game.slug}>
+            <Link
+              href={`/games/${game.slug}`}
+              className="flex items-center gap-4 p-4 rounded-lg bg-white shadow hover:shadow-lg transition-shadow"
+            >
+              <Image src={game.thumbnail} alt="" width={64} height={64} className="shrink-0" />
+              <div>
+                <h2 className="text-xl font-semibold">{game.title}</h2>
+                <p className="text-sm text-gray-600">{game.description}</p>
+              </div>
+            </Link>
+          </li>
+        ))}
+      </ul>
+      <Link href="/editor" className="text-sm text-sky-700 hover:underline">
+        Design your own Pac-Man maze in the level editor →
+      </Link>
     </main>
   );
 }
@@ -0,0 +1,39 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Achievement, achievementUnlocks } from '@/lib/achievements';
+
+const TOAST_MS = 4000;
+
+/** Pops up a toast for each achievement unlocked while the page is open. */
+export default function AchievementToasts() {
+  const [toasts, setToasts] = useState<Achievement[]>([]);
+
+  useEffect(() => {
+    const timers = new Set<ReturnType<typeof setTimeout>>();
+    const off = achievementUnlocks.on('unlocked', (achievement) => {
+      setToasts((shown) => [...shown, achievement]);
+      const timer = setTimeout(() => {
+        timers.delete(timer);
+        setToasts((shown) => shown.filter((a) => a !== achievement));
+      }, TOAST_MS);
+      timers.add(timer);
+    });
+    return () => {
+      off();
+      timers.forEach(clearTimeout);
+    };
+  }, []);
+
+  return (
+    <div aria-live="polite" className="fixed bottom-4 right-4 z-50 flex flex-col gap-2 pointer-events-none">
+      {toasts.map((a) => (
+        <div key={a.id} className="px-4 py-3 rounded-lg shadow-lg bg-gray-900/90 text-white max-w-xs">
+          <p className="text-xs uppercase tracking-wide text-yellow-300">Achievement unlocked</p>
+          <p className="font-semibold">{a.title}</p>
+          <p className="text-sm text-gray-300">{a.description}</p>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { AudioSettings as Settings, getAudioSettings, saveAudioSettings } from '@/lib/audio/settings';
+
+const SLIDERS: { key: 'master' | 'music' | 'sfx'; label: string }[] = [
+  { key: 'master', label: 'Master' },
+  { key: 'music', label: 'Music' },
+  { key: 'sfx', label: 'Effects' },
+];
+
+/** Volume sliders and a mute switch, shared by all games and saved right away. */
+export default function AudioSettings() {
+  // Loaded after mount, localStorage isn't available while rendering on the server
+  const [settings, setSettings] = useState<Settings | null>(null);
+
+  useEffect(() => {
+    setSettings(getAudioSettings());
+  }, []);
+
+  if (!settings) return null;
+
+  const update = (change: Partial<Settings>) => {
+    const next = { ...settings, ...change };
+    saveAudioSettings(next);
+    setSettings(next);
+  };
+
+  return (
+    <details className="w-full max-w-md bg-white rounded-lg shadow text-sm">
+      <summary className="p-2 cursor-pointer font-semibold">Sound</summary>
+      <div className="flex flex-col gap-2 p-2 border-t">
+        {SLIDERS.map(({ key, label }) => (
+          <label key={key} className="flex items-center gap-2">
+            <span className="w-16">{label}</span>
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.05}
+              value={settings[key]}
+              disabled={settings.muted}
+              onChange={(e) => update({ [key]: Number(e.target.value) })}
+              className="flex-1"
+            />
+            <span className="w-10 text-right tabular-nums text-gray-600">{Math.round(settings[key] * 100)}%</span>
+          </label>
+        ))}
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={settings.muted} onChange={(e) => update({ muted: e.target.checked })} />
+          Mute
+        </label>
+      </div>
+    </details>
+  );
+}
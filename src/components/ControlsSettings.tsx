@@ -0,0 +1,97 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  ACTION_LABELS,
+  DEFAULT_BINDINGS,
+  GameAction,
+  getBindings,
+  KeyBindings,
+  keyLabel,
+  rebind,
+  saveBindings,
+} from '@/lib/input';
+
+type Props = {
+  /** The actions the game uses, in the order to list them. */
+  actions: readonly GameAction[];
+};
+
+/**
+ * Lets the player rebind a game's keys. Changes are saved right away and
+ * apply to every game using the same action.
+ */
+export default function ControlsSettings({ actions }: Props) {
+  // Loaded after mount, localStorage isn't available while rendering on the server
+  const [bindings, setBindings] = useState<KeyBindings | null>(null);
+  const [listening, setListening] = useState<GameAction | null>(null);
+
+  useEffect(() => {
+    setBindings(getBindings());
+  }, []);
+
+  // Capture the next key press before the game sees it
+  useEffect(() => {
+    if (!listening || !bindings) return;
+    const handleKey = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      if (e.code !== 'Escape' || listening === 'pause') {
+        const next = rebind(bindings, listening, e.code, actions);
+        saveBindings(next);
+        setBindings(next);
+      }
+      setListening(null);
+    };
+    window.addEventListener('keydown', handleKey, { capture: true });
+    return () => window.removeEventListener('keydown', handleKey, { capture: true });
+  }, [listening, bindings, actions]);
+
+  if (!bindings) return null;
+
+  const reset = () => {
+    const next = { ...bindings };
+    for (const action of actions) next[action] = [...DEFAULT_BINDINGS[action]];
+    saveBindings(next);
+    setBindings(next);
+  };
+
+  return (
+    <details className="w-full max-w-md bg-white rounded-lg shadow text-sm">
+      <summary className="p-2 cursor-pointer font-semibold">Controls</summary>
+      <table className="w-full text-left">
+        <tbody>
+          {actions.map((action) => (
+            <tr key={action} className="border-t">
+              <td className="p-2">{ACTION_LABELS[action]}</td>
+              <td className="p-2 text-gray-600">
+                {listening === action
+                  ? 'Press a key… (Esc to cancel)'
+                  : bindings[action].map(keyLabel).join(', ') || 'Unbound'}
+              </td>
+              <td className="p-2 text-right">
+                <button
+                  type="button"
+                  onClick={() => setListening(action)}
+                  className="px-2 py-0.5 rounded bg-gray-200 text-black hover:bg-gray-300"
+                >
+                  Rebind
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div className="flex items-center justify-between gap-2 p-2 border-t">
+        <span className="text-xs text-gray-600">Gamepads: d-pad or left stick to move (a second pad moves Pac-Man player 2), A to flap, Start to pause.</span>
+        <button
+          type="button"
+          onClick={reset}
+          className="px-2 py-0.5 rounded bg-gray-200 text-black hover:bg-gray-300 shrink-0"
+        >
+          Reset
+        </button>
+      </div>
+    </details>
+  );
+}
@@ -1,64 +1,99 @@
 'use client';
 
-import { useRef, useEffect, useState } from 'react';
+import { useCallback, useRef, useEffect, useState } from 'react';
+import { createFlappyState, FIELD_HEIGHT, FIELD_WIDTH, FlappyState, step } from '@/lib/flappy/engine';
+import { FLAPPY_MODE_IDS, FLAPPY_MODES, FlappyMode } from '@/lib/flappy/modes';
+import { FLAP_CODE } from '@/lib/flappy/replay';
+import type { FlappyEvents } from '@/lib/flappy/events';
+import { connectFlappySounds } from '@/lib/flappy/sounds';
+import { connectFlappyEffects } from '@/lib/flappy/effects';
+import { connectFlappyStats } from '@/lib/flappy/stats';
+import {
+  FlappySprites,
+  interpolateFlappy,
+  loadFlappySprites,
+  renderFlappy,
+} from '@/lib/flappy/render';
+import { startFixedStepLoop } from '@/lib/loop';
+import GameOverOverlay from '@/components/GameOverOverlay';
+import PauseOverlay, { useAutoPause } from '@/components/PauseOverlay';
+import { FLAPPY_ACTIONS } from '@/lib/input';
+import { createEmitter, emitAll } from '@/lib/emitter';
+import { createEffects, drawEffects, shakeOffset, updateEffects } from '@/lib/effects';
+import { useGameAudio } from '@/lib/useGameAudio';
+import { useGameCanvas } from '@/lib/useGameCanvas';
+import { useGameInput, usePointerGestures } from '@/lib/useGameInput';
+import { fieldBoxStyle } from '@/lib/viewport';
+import { dailySeed, randomSeed } from '@/lib/random';
+import { createReplayRecorder, Replay, ReplayRecorder } from '@/lib/replay';
+
+const seedFor = (mode: FlappyMode) => (FLAPPY_MODES[mode].dailySeed ? dailySeed() : randomSeed());
 
 /**
  * A lightweight Flappy-Bird-style mini-game rendered on an HTML5 canvas.
- * Controls: Click anywhere on the canvas or press the space-bar to flap.
+ * Controls: Click or tap anywhere on the field or press the space-bar (or a gamepad's
+ * A button) to flap; P or Escape pauses, and so does switching to another tab
+ * or window. Keys can be rebound, see lib/input.
+ *
+ * The mode (see lib/flappy/modes) is picked on the start screen.
  */
 export default function FlappyGame() {
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const fieldRef = useRef<HTMLDivElement>(null);
 
   const [score, setScore] = useState(0);
   const [gameOver, setGameOver] = useState(false);
   const [started, setStarted] = useState(false);
-
-  // Game constants
-  const width = 400;
-  const height = 600;
-  const birdRadius = 12;
-  const gravity = 0.35;
-  const flapStrength = -6;
-  const pipeWidth = 50;
-  const gapHeight = 140;
-  const pipeSpeed = 1.5;
-
-  // Mutable refs to hold game-state between renders without triggering re-renders
-  const birdY = useRef(height / 2);
-  const velocity = useRef(0);
-  const pipes = useRef<{ x: number; gapY: number; scored: boolean }[]>([]);
-  const animationRef = useRef<number | null>(null);
-  const frameCounter = useRef(0);
-
-  // Load bird image (SVG)
-  const birdImgRef = useRef<HTMLImageElement | null>(null);
-
-  // Background image
-  const bgImgRef = useRef<HTMLImageElement | null>(null);
+  const [paused, setPaused] = useState(false);
+  const [replay, setReplay] = useState<Replay | null>(null);
+  const [mode, setMode] = useState<FlappyMode>('normal');
+
+  const width = FIELD_WIDTH;
+  const height = FIELD_HEIGHT;
+
+  // The simulation itself lives in the headless engine, see lib/flappy/engine
+  const game = useRef<FlappyState | null>(null);
+  if (game.current === null) {
+    game.current = createFlappyState(seedFor(mode), mode);
+  }
+  const recorder = useRef<ReplayRecorder | null>(null);
+  if (recorder.current === null) {
+    recorder.current = createReplayRecorder('flappy', game.current.seed, mode);
+  }
+  const pendingFlap = useRef(false);
+  const prevGame = useRef<FlappyState | null>(null);
+
+  // Bird image
+  const spritesRef = useRef<FlappySprites | null>(null);
 
   useEffect(() => {
-    const img = new Image();
-    img.src = '/bird.svg';
-    birdImgRef.current = img;
-  }, []);
-
-  useEffect(() => {
-    const bg = new Image();
-    bg.src = '/background.png'; // ensure the image is placed in public/background.png
-    bgImgRef.current = bg;
+    spritesRef.current = loadFlappySprites();
   }, []);
 
   // Reset game to initial state
-  const resetGame = () => {
-    birdY.current = height / 2;
-    velocity.current = 0;
-    pipes.current = [];
+  const resetGame = (nextMode = mode) => {
+    game.current = createFlappyState(seedFor(nextMode), nextMode);
+    recorder.current = createReplayRecorder('flappy', game.current.seed, nextMode);
+    prevGame.current = null;
+    pendingFlap.current = false;
     setScore(0);
+    setReplay(null);
     setGameOver(false);
-    frameCounter.current = 0;
+    setPaused(false);
   };
 
+  const selectMode = (nextMode: FlappyMode) => {
+    setMode(nextMode);
+    resetGame(nextMode);
+  };
+
+  const running = started && !gameOver;
+  const pause = useCallback(() => setPaused(true), []);
+  useAutoPause(running && !paused, pause);
+  useGameAudio('flappy', running && !paused);
+
   const flap = () => {
+    if (paused) return;
     if (!started) {
       setStarted(true);
     }
@@ -68,160 +103,136 @@ export default function FlappyGame() {
       setStarted(true);
       return;
     }
-    velocity.current = flapStrength;
+    pendingFlap.current = true;
   };
 
-  // Register event listeners once
+  useGameInput(FLAPPY_ACTIONS, (action) => {
+    if (action !== 'pause') flap();
+    else if (running) setPaused(!paused);
+  });
+
+  const { draw } = useGameCanvas(canvasRef, width, height);
+
+  // Flap as the finger goes down; restarting is left to the game-over panel
+  usePointerGestures(fieldRef, {
+    onPress: () => {
+      if (!gameOver) flap();
+    },
+  });
+
+  // The engine reports what happened each step; the HUD, sound and the rest listen here
+  const [events] = useState(() => createEmitter<FlappyEvents>());
+  // Particles, popups and shake, drawn over the scene
+  const [fx] = useState(createEffects);
+
   useEffect(() => {
-    const handleKey = (e: KeyboardEvent) => {
-      if (e.code === 'Space') {
-        e.preventDefault();
-        flap();
-      }
-    };
-    window.addEventListener('keydown', handleKey);
-    const canvas = canvasRef.current;
-    canvas?.addEventListener('mousedown', flap);
-    return () => {
-      window.removeEventListener('keydown', handleKey);
-      canvas?.removeEventListener('mousedown', flap);
-      if (animationRef.current !== null) {
-        cancelAnimationFrame(animationRef.current);
-      }
-    };
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [gameOver, started]);
+    const offs = [
+      events.on('pipePassed', () => setScore(game.current?.score ?? 0)),
+      events.on('playerDied', () => {
+        setReplay(recorder.current?.finish(game.current?.score ?? 0) ?? null);
+        setGameOver(true);
+      }),
+      connectFlappySounds(events),
+      connectFlappyEffects(events, fx, () => game.current?.birdY ?? 0),
+      connectFlappyStats(events, () => game.current),
+    ];
+    return () => offs.forEach((off) => off());
+  }, [events, fx]);
 
   // Main game loop
   useEffect(() => {
     const ctx = canvasRef.current?.getContext('2d');
     if (!ctx) return;
 
-    const draw = () => {
-      // Physics update only after game started
-      if (started && !gameOver) {
-        velocity.current += gravity;
-        birdY.current += velocity.current;
-
-        // Add new pipes periodically
-        if (frameCounter.current % 90 === 0) {
-          const gapY = Math.random() * (height - gapHeight - 120) + 60;
-          pipes.current.push({ x: width, gapY, scored: false });
-        }
-        frameCounter.current += 1;
-
-        // Update pipes & check for collisions/score
-        pipes.current.forEach((pipe) => {
-          pipe.x -= pipeSpeed;
-
-          // Score when pipe passes bird
-          if (!pipe.scored && pipe.x + pipeWidth < width / 4) {
-            pipe.scored = true;
-            setScore((s) => s + 1);
-          }
-        });
-        // Remove off-screen pipes
-        pipes.current = pipes.current.filter((p) => p.x + pipeWidth > 0);
-
-        // Collision detection
-        const hitGround = birdY.current + birdRadius > height;
-        const hitCeiling = birdY.current - birdRadius < 0;
-
-        const hitPipe = pipes.current.some((pipe) => {
-          const birdX = width / 4;
-          const withinX =
-            birdX + birdRadius > pipe.x && birdX - birdRadius < pipe.x + pipeWidth;
-          if (!withinX) return false;
-          const withinGap =
-            birdY.current - birdRadius > pipe.gapY &&
-            birdY.current + birdRadius < pipe.gapY + gapHeight;
-          return !withinGap;
+    // Fixed-timestep physics, rendering interpolated between the last two steps
+    return startFixedStepLoop({
+      update: (dtMs) => {
+        // Physics update only after game started
+        if (!started || gameOver || paused || !game.current || game.current.gameOver) return;
+        const flapped = pendingFlap.current;
+        const next = step(game.current, { flap: flapped }, dtMs);
+        recorder.current?.tick(flapped ? FLAP_CODE : null);
+        pendingFlap.current = false;
+        prevGame.current = game.current;
+        game.current = next;
+        emitAll(events, next.events);
+      },
+      render: (alpha) => {
+        if (!game.current) return;
+        const shown = prevGame.current ? interpolateFlappy(prevGame.current, game.current, alpha) : game.current;
+        draw(ctx, () => {
+          updateEffects(fx, performance.now(), paused);
+          const offset = shakeOffset(fx);
+          ctx.translate(offset.x, offset.y);
+          renderFlappy(ctx, shown, spritesRef.current);
+          drawEffects(ctx, fx);
         });
-
-        if (hitGround || hitCeiling || hitPipe) {
-          setGameOver(true);
-        }
-      }
-
-      // DRAW SECTION
-      if (bgImgRef.current && bgImgRef.current.complete) {
-        ctx.drawImage(bgImgRef.current, 0, 0, width, height);
-      } else {
-        ctx.fillStyle = '#87CEEB';
-        ctx.fillRect(0, 0, width, height); // fallback sky background
-      }
-
-      // Draw pipes
-      ctx.fillStyle = '#228B22';
-      pipes.current.forEach((pipe) => {
-        // Top pipe
-        ctx.fillRect(pipe.x, 0, pipeWidth, pipe.gapY);
-        // Bottom pipe
-        ctx.fillRect(
-          pipe.x,
-          pipe.gapY + gapHeight,
-          pipeWidth,
-          height - pipe.gapY - gapHeight
-        );
-      });
-
-      // Draw bird (image)
-      const birdX = width / 4;
-      if (birdImgRef.current && birdImgRef.current.complete) {
-        ctx.drawImage(
-          birdImgRef.current,
-          birdX - birdRadius,
-          birdY.current - birdRadius,
-          birdRadius * 2,
-          birdRadius * 2
-        );
-      } else {
-        // Fallback if image not loaded yet
-        ctx.fillStyle = '#FFD700';
-        ctx.beginPath();
-        ctx.arc(birdX, birdY.current, birdRadius, 0, Math.PI * 2);
-        ctx.fill();
-      }
-
-      // Loop
-      animationRef.current = requestAnimationFrame(draw);
-    };
-
-    draw();
+      },
+    });
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [started, gameOver]);
+  }, [started, gameOver, paused]);
 
   return (
-    <div className="flex flex-col items-center gap-4">
+    <div className="flex flex-col items-center gap-4 w-full">
       <h1 className="text-2xl font-bold mb-2">Flappy Bird Mini-Game</h1>
       <p className="text-center text-sm max-w-md">
         Click or press the <kbd className="px-1 py-0.5 border rounded">Space</kbd>{' '}
         key to flap your wings and navigate through the pipes! Your goal is to
         survive as long as possible and rack up points.
       </p>
-      <div className="relative">
-        <canvas
-          ref={canvasRef}
-          width={width}
-          height={height}
-          className="border-2 border-gray-700 bg-sky-200"
-        />
+      {/* No scrolling or zooming the page while tapping on the field */}
+      <div ref={fieldRef} className="relative touch-none" style={fieldBoxStyle(width, height)}>
+        <canvas ref={canvasRef} className="block w-full h-full border-2 border-gray-700 bg-sky-200" />
         {/* Score Display */}
         <span className="absolute top-2 left-2 text-2xl font-extrabold text-white drop-shadow-md">
           {score}
         </span>
+        <span className="absolute top-3 right-2 text-sm font-semibold text-white drop-shadow-md">
+          {FLAPPY_MODES[mode].label}
+        </span>
+        {running && !paused && (
+          <button
+            type="button"
+            onClick={pause}
+            aria-label="Pause"
+            className="absolute bottom-2 right-2 w-8 h-8 rounded bg-black/30 hover:bg-black/50 text-white font-bold"
+          >
+            ❚❚
+          </button>
+        )}
         {/* Overlay messages */}
+        {running && paused && <PauseOverlay onResume={() => setPaused(false)} />}
         {!started && !gameOver && (
           <div className="absolute inset-0 flex flex-col items-center justify-center text-center bg-black/40 text-white px-4">
-            <p className="text-lg font-semibold">Click or press Space to start!</p>
+            <p className="text-lg font-semibold">Click, tap or press Space to start!</p>
+            <div className="flex flex-wrap justify-center gap-2 mt-3 max-w-xs">
+              {FLAPPY_MODE_IDS.map((m) => (
+                <button
+                  key={m}
+                  type="button"
+                  onClick={() => selectMode(m)}
+                  title={FLAPPY_MODES[m].description}
+                  className={`px-3 py-1 rounded text-sm font-semibold ${
+                    m === mode ? 'bg-yellow-400 text-black' : 'bg-white/20 hover:bg-white/30'
+                  }`}
+                >
+                  {FLAPPY_MODES[m].label}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs mt-2">{FLAPPY_MODES[mode].description}</p>
           </div>
         )}
         {gameOver && (
-          <div className="absolute inset-0 flex flex-col items-center justify-center text-center bg-black/60 text-white px-4">
-            <p className="text-xl font-bold mb-2">Game Over</p>
-            <p className="mb-4">Your score: {score}</p>
-            <p className="text-sm">Click or press Space to play again</p>
-          </div>
+          <GameOverOverlay
+            game="flappy"
+            score={score}
+            durationMs={game.current?.time ?? 0}
+            mode={mode}
+            restartHint="Click or press Space to play again"
+            onRestart={flap}
+            replay={replay}
+          />
         )}
       </div>
     </div>
@@ -0,0 +1,155 @@
+'use client';
+
+import Link from 'next/link';
+import { useState } from 'react';
+import ReplayPlayer from '@/components/ReplayPlayer';
+import {
+  addHighScore,
+  getBestScore,
+  getPlayerName,
+  qualifiesForHighScores,
+} from '@/lib/highscores';
+import { downloadReplay, Replay } from '@/lib/replay';
+import { submitScore } from '@/lib/scoresApi';
+
+type Props = {
+  /** Registry slug, used as the high-score table key. */
+  game: string;
+  score: number;
+  /** Simulated play time, sent along so the server can sanity-check the score. */
+  durationMs: number;
+  /** Mode the round was played in, saved with the score. */
+  mode?: string;
+  /** How to start another round, e.g. "Click or press Space to play again". */
+  restartHint: string;
+  onRestart: () => void;
+  /** Off for practice rounds (e.g. editor play-tests) that shouldn't reach the leaderboards. */
+  saveScores?: boolean;
+  /** Recording of the round, offered for watching and download. */
+  replay?: Replay | null;
+};
+
+/**
+ * Game-over panel shared by all games: final score, a "New best!" badge and a
+ * name entry form. The name goes on the local top list when the score makes
+ * it, and the score is offered to the shared leaderboard either way – it may
+ * rank there even when it doesn't here.
+ *
+ * Mounted only once a round has ended, so reading localStorage during the
+ * first render is safe.
+ */
+export default function GameOverOverlay({
+  game,
+  score,
+  durationMs,
+  mode,
+  restartHint,
+  onRestart,
+  saveScores = true,
+  replay,
+}: Props) {
+  const [previousBest] = useState(() => getBestScore(game));
+  const [qualifies] = useState(() => saveScores && qualifiesForHighScores(game, score));
+  const [name, setName] = useState(getPlayerName);
+  const [submitted, setSubmitted] = useState(false);
+  const [rank, setRank] = useState<number | null>(null);
+  const [shared, setShared] = useState<'pending' | 'done' | string | null>(null);
+  const [watching, setWatching] = useState(false);
+
+  const isNewBest = score > previousBest;
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitted(true);
+    if (qualifies) setRank(addHighScore(game, name, score, mode));
+
+    // The shared leaderboard checks the score on its own; the local save stands either way
+    setShared('pending');
+    submitScore({ game, name: name.trim() || 'Anonymous', score, durationMs, mode })
+      .then(() => setShared('done'))
+      .catch((err: Error) => setShared(err.message));
+  };
+
+  return (
+    <div className="absolute inset-0 flex flex-col items-center justify-center text-center bg-black/60 text-white px-4 select-none">
+      <p className="text-xl font-bold mb-2">Game Over</p>
+      <p className="mb-2">Your score: {score}</p>
+      {saveScores && isNewBest && <p className="mb-2 font-extrabold text-yellow-300 animate-pulse">New best!</p>}
+
+      {saveScores && score > 0 && !submitted && (
+        <form onSubmit={submit} className="flex gap-2 mb-4" onMouseDown={(e) => e.stopPropagation()}>
+          <input
+            autoFocus
+            value={name}
+            maxLength={16}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Your name"
+            aria-label="Your name"
+            className="px-2 py-1 rounded text-black bg-white select-text"
+          />
+          <button type="submit" className="px-3 py-1 rounded bg-yellow-400 text-black font-semibold">
+            {qualifies ? 'Save' : 'Share'}
+          </button>
+        </form>
+      )}
+      {rank !== null && rank >= 0 && <p className="mb-1 text-sm">Saved as #{rank + 1} on the leaderboard</p>}
+      {shared === 'pending' && <p className="mb-4 text-xs text-gray-300">Sharing…</p>}
+      {shared === 'done' && <p className="mb-4 text-xs text-gray-300">Shared with everyone</p>}
+      {shared && shared !== 'pending' && shared !== 'done' && (
+        <p className="mb-4 text-xs text-red-300">Not shared: {shared}</p>
+      )}
+
+      <p className="text-sm mb-2">{restartHint}</p>
+      <button
+        type="button"
+        onClick={onRestart}
+        className="mb-2 px-3 py-1 rounded bg-white/20 hover:bg-white/30 text-sm font-semibold"
+      >
+        Play again
+      </button>
+      {replay && (
+        <div className="flex gap-2 mb-2">
+          <button
+            type="button"
+            onClick={() => setWatching(true)}
+            className="px-3 py-1 rounded bg-white/20 hover:bg-white/30 text-sm"
+          >
+            Watch replay
+          </button>
+          <button
+            type="button"
+            onClick={() => downloadReplay(replay)}
+            className="px-3 py-1 rounded bg-white/20 hover:bg-white/30 text-sm"
+          >
+            Download replay
+          </button>
+        </div>
+      )}
+      <Link
+        href={`/games/${game}/leaderboard`}
+        className="text-sm underline text-sky-200"
+        onMouseDown={(e) => e.stopPropagation()}
+      >
+        View leaderboard
+      </Link>
+
+      {replay && watching && (
+        // Keys pressed in the player must not reach the game's restart handler
+        <div
+          ref={(el) => el?.focus()}
+          tabIndex={-1}
+          className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 p-4 select-text outline-none"
+          onKeyDown={(e) => {
+            e.stopPropagation();
+            if (e.key === 'Escape') setWatching(false);
+          }}
+          onMouseDown={(e) => e.stopPropagation()}
+        >
+          <div className="bg-white text-black rounded p-4">
+            <ReplayPlayer replay={replay} onClose={() => setWatching(false)} />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
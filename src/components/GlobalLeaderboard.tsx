@@ -0,0 +1,47 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { fetchScores, ScoreRecord } from '@/lib/scoresApi';
+
+/** Shared top scores for one game, loaded from /api/scores. */
+export default function GlobalLeaderboard({ game }: { game: string }) {
+  const [scores, setScores] = useState<ScoreRecord[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchScores(game)
+      .then(setScores)
+      .catch((err: Error) => setError(err.message));
+  }, [game]);
+
+  if (error) return <p className="text-sm text-red-600">Couldn&apos;t load shared scores: {error}</p>;
+  if (scores === null) return <p className="text-sm text-gray-600">Loading…</p>;
+  if (scores.length === 0) return <p className="text-sm text-gray-600">No shared scores yet.</p>;
+
+  const showMode = scores.some((s) => s.mode);
+
+  return (
+    <table className="w-full max-w-md text-left bg-white rounded-lg shadow">
+      <thead>
+        <tr className="border-b">
+          <th className="p-2">#</th>
+          <th className="p-2">Name</th>
+          {showMode && <th className="p-2">Mode</th>}
+          <th className="p-2 text-right">Score</th>
+          <th className="p-2 text-right">Date</th>
+        </tr>
+      </thead>
+      <tbody>
+        {scores.map((s, i) => (
+          <tr key={s.id} className="border-b last:border-0">
+            <td className="p-2">{i + 1}</td>
+            <td className="p-2">{s.name}</td>
+            {showMode && <td className="p-2 capitalize">{s.mode ?? '–'}</td>}
+            <td className="p-2 text-right font-semibold">{s.score}</td>
+            <td className="p-2 text-right text-sm text-gray-600">{new Date(s.date).toLocaleDateString()}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
@@ -0,0 +1,46 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { getHighScores, HighScore, MAX_HIGH_SCORES } from '@/lib/highscores';
+
+/** Local top-N table for one game. Reads localStorage after mount to avoid hydration mismatches. */
+export default function Leaderboard({ game }: { game: string }) {
+  const [scores, setScores] = useState<HighScore[] | null>(null);
+
+  useEffect(() => {
+    setScores(getHighScores(game));
+  }, [game]);
+
+  if (scores === null) return null;
+  if (scores.length === 0) {
+    return <p className="text-sm text-gray-600">No scores yet – go set one!</p>;
+  }
+
+  const showMode = scores.some((s) => s.mode);
+
+  return (
+    <table className="w-full max-w-md text-left bg-white rounded-lg shadow">
+      <caption className="text-sm text-gray-600 mb-2">Top {MAX_HIGH_SCORES} on this device</caption>
+      <thead>
+        <tr className="border-b">
+          <th className="p-2">#</th>
+          <th className="p-2">Name</th>
+          {showMode && <th className="p-2">Mode</th>}
+          <th className="p-2 text-right">Score</th>
+          <th className="p-2 text-right">Date</th>
+        </tr>
+      </thead>
+      <tbody>
+        {scores.map((s, i) => (
+          <tr key={`${s.date}-${i}`} className="border-b last:border-0">
+            <td className="p-2">{i + 1}</td>
+            <td className="p-2">{s.name}</td>
+            {showMode && <td className="p-2 capitalize">{s.mode ?? '–'}</td>}
+            <td className="p-2 text-right font-semibold">{s.score}</td>
+            <td className="p-2 text-right text-sm text-gray-600">{new Date(s.date).toLocaleDateString()}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
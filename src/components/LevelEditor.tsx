@@ -0,0 +1,293 @@
+'use client';
+
+import { useMemo, useRef, useState } from 'react';
+import PacmanGame from '@/components/PacmanGame';
+import {
+  BUNDLED_LEVELS,
+  DEFAULT_GHOST_SPEED,
+  DEFAULT_PACMAN_SPEED,
+  LEVEL_FORMAT,
+  LevelError,
+  LevelFile,
+  loadLevel,
+  PacmanLevel,
+  serializeLevel,
+} from '@/lib/pacman/levels';
+import { MAX_MAZE_COLS, MAX_MAZE_ROWS, sameTile, Tile } from '@/lib/pacman/maze';
+
+/**
+ * Grid editor for Pac-Man maze levels.
+ *
+ * The layout being edited is kept as a level document (see lib/pacman/levels)
+ * and validated on every change with the same loader the game uses, so what
+ * passes here plays. Layouts can be play-tested in place and exported or
+ * imported as .json files.
+ *
+ * The grid size can't be changed here: it is the size of the layout being
+ * edited, and the game's field fits at most MAX_MAZE_COLS × MAX_MAZE_ROWS tiles.
+ */
+
+type Tool = 'wall' | 'pellet' | 'power' | 'erase' | 'pacman' | 'ghost';
+
+const TOOLS: { id: Tool; label: string; hint: string }[] = [
+  { id: 'wall', label: 'Wall', hint: 'Paint walls' },
+  { id: 'pellet', label: 'Cherry', hint: 'Paint pellets to eat' },
+  { id: 'power', label: 'Apex', hint: 'Place apex power-ups' },
+  { id: 'erase', label: 'Erase', hint: 'Clear tiles to empty corridor' },
+  { id: 'pacman', label: 'Pac-Man', hint: 'Set the Pac-Man spawn' },
+  { id: 'ghost', label: 'Ghost house', hint: 'Toggle ghost house tiles' },
+];
+
+const TOOL_CHAR: Partial<Record<Tool, string>> = { wall: '#', pellet: '.', power: 'o', erase: ' ' };
+
+const CELL_PX = 22;
+
+type Validation = { level: PacmanLevel; issues: null } | { level: null; issues: string[] };
+
+const validate = (doc: LevelFile): Validation => {
+  try {
+    return { level: loadLevel(doc), issues: null };
+  } catch (err) {
+    return { level: null, issues: err instanceof LevelError ? err.issues : [String(err)] };
+  }
+};
+
+export default function LevelEditor() {
+  const [doc, setDoc] = useState<LevelFile>(() => serializeLevel(BUNDLED_LEVELS[0]));
+  const [tool, setTool] = useState<Tool>('wall');
+  const [testing, setTesting] = useState<PacmanLevel | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const painting = useRef(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const { level, issues } = useMemo(() => validate(doc), [doc]);
+  const rows = doc.map.length;
+  const cols = doc.map[0]?.length ?? 0;
+
+  /* ---------- Editing ----------- */
+  const applyTool = (tile: Tile, startOfStroke: boolean) => {
+    // Ghost house tiles toggle, so only the first tile of a drag counts
+    if (tool === 'ghost' && !startOfStroke) return;
+
+    setDoc((d) => {
+      const char = TOOL_CHAR[tool];
+      if (char !== undefined) {
+        const line = d.map[tile.row];
+        if (line[tile.col] === char) return d;
+        const map = [...d.map];
+        map[tile.row] = line.slice(0, tile.col) + char + line.slice(tile.col + 1);
+        return { ...d, map };
+      }
+      if (tool === 'pacman') return { ...d, pacman: tile };
+
+      const inHouse = d.ghostHouse.some((t) => sameTile(t, tile));
+      return {
+        ...d,
+        ghostHouse: inHouse ? d.ghostHouse.filter((t) => !sameTile(t, tile)) : [...d.ghostHouse, tile],
+      };
+    });
+  };
+
+  const clearAll = () => {
+    setDoc((d) => ({
+      ...d,
+      map: d.map.map((line, row) =>
+        [...line]
+          .map((_, col) => (row === 0 || col === 0 || row === rows - 1 || col === cols - 1 ? '#' : ' '))
+          .join('')
+      ),
+    }));
+  };
+
+  /* ---------- Import / export ----------- */
+  const exportFile = () => {
+    const blob = new Blob([JSON.stringify(doc, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${doc.name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-') || 'level'}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const importFile = async (file: File) => {
+    try {
+      const loaded = loadLevel(JSON.parse(await file.text()));
+      setDoc(serializeLevel(loaded));
+      setImportError(null);
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  /* ---------- Play-test ----------- */
+  if (testing) {
+    return (
+      <div className="flex flex-col items-center gap-4">
+        <PacmanGame levels={[testing]} />
+        <button
+          type="button"
+          onClick={() => setTesting(null)}
+          className="px-4 py-2 rounded bg-gray-800 text-white font-semibold"
+        >
+          Back to editor
+        </button>
+      </div>
+    );
+  }
+
+  const cellClass = (tile: Tile, ch: string) => {
+    if (sameTile(tile, doc.pacman)) return 'bg-yellow-300';
+    if (doc.ghostHouse.some((t) => sameTile(t, tile))) return 'bg-pink-400';
+    if (ch === '#') return 'bg-blue-700';
+    return 'bg-black';
+  };
+
+  return (
+    <div className="flex flex-col lg:flex-row gap-6 items-start">
+      <div
+        className="grid border-2 border-yellow-400 select-none touch-none"
+        style={{ gridTemplateColumns: `repeat(${cols}, ${CELL_PX}px)` }}
+        onPointerUp={() => (painting.current = false)}
+        onPointerLeave={() => (painting.current = false)}
+      >
+        {doc.map.map((line, row) =>
+          [...line].map((ch, col) => {
+            const tile = { col, row };
+            return (
+              <div
+                key={`${col}-${row}`}
+                className={`flex items-center justify-center ${cellClass(tile, ch)}`}
+                style={{ width: CELL_PX, height: CELL_PX }}
+                onPointerDown={(e) => {
+                  e.currentTarget.releasePointerCapture(e.pointerId);
+                  applyTool(tile, true);
+                  painting.current = true;
+                }}
+                onPointerEnter={() => painting.current && applyTool(tile, false)}
+              >
+                {ch === '.' && <span className="w-1.5 h-1.5 rounded-full bg-yellow-200" />}
+                {ch === 'o' && <span className="w-3 h-3 rounded-full bg-amber-400" />}
+              </div>
+            );
+          })
+        )}
+      </div>
+
+      <div className="flex flex-col gap-4 w-72">
+        <label className="flex flex-col text-sm gap-1">
+          Level name
+          <input
+            value={doc.name}
+            onChange={(e) => setDoc({ ...doc, name: e.target.value })}
+            className="px-2 py-1 border rounded"
+          />
+        </label>
+        <p className="text-sm text-gray-600">
+          Grid: {cols}×{rows} tiles. The field is a fixed {MAX_MAZE_COLS}×{MAX_MAZE_ROWS}, so larger maps
+          can&apos;t be imported.
+        </p>
+
+        <div className="grid grid-cols-2 gap-2">
+          {TOOLS.map((t) => (
+            <button
+              key={t.id}
+              type="button"
+              title={t.hint}
+              onClick={() => setTool(t.id)}
+              className={`px-2 py-1 rounded text-sm font-semibold ${
+                tool === t.id ? 'bg-yellow-400 text-black' : 'bg-gray-200 hover:bg-gray-300'
+              }`}
+            >
+              {t.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-2 gap-2 text-sm">
+          {(['pacman', 'ghost'] as const).map((key) => (
+            <label key={key} className="flex flex-col gap-1">
+              {key === 'pacman' ? 'Pac-Man speed' : 'Ghost speed'}
+              <input
+                type="number"
+                step={0.1}
+                min={0.1}
+                value={doc.speeds?.[key] ?? (key === 'pacman' ? DEFAULT_PACMAN_SPEED : DEFAULT_GHOST_SPEED)}
+                onChange={(e) => setDoc({ ...doc, speeds: { ...doc.speeds, [key]: Number(e.target.value) } })}
+                className="px-2 py-1 border rounded"
+              />
+            </label>
+          ))}
+        </div>
+
+        {issues ? (
+          <ul className="text-sm text-red-700 list-disc pl-5">
+            {issues.map((issue) => (
+              <li key={issue}>{issue}</li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-green-700">Level is valid.</p>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          <button
+            type="button"
+            disabled={!level}
+            onClick={() => setTesting(level)}
+            className="px-3 py-1 rounded bg-yellow-400 font-semibold disabled:opacity-40"
+          >
+            Play-test
+          </button>
+          <button type="button" onClick={exportFile} className="px-3 py-1 rounded bg-gray-200 hover:bg-gray-300">
+            Export
+          </button>
+          <button
+            type="button"
+            onClick={() => fileInput.current?.click()}
+            className="px-3 py-1 rounded bg-gray-200 hover:bg-gray-300"
+          >
+            Import
+          </button>
+          <button type="button" onClick={clearAll} className="px-3 py-1 rounded bg-gray-200 hover:bg-gray-300">
+            Clear
+          </button>
+          <input
+            ref={fileInput}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) importFile(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+        {importError && <pre className="text-xs text-red-700 whitespace-pre-wrap">{importError}</pre>}
+
+        <label className="flex flex-col text-sm gap-1">
+          Start from
+          <select
+            className="px-2 py-1 border rounded"
+            defaultValue=""
+            onChange={(e) => {
+              const bundled = BUNDLED_LEVELS[Number(e.target.value)];
+              if (bundled) setDoc(serializeLevel(bundled));
+            }}
+          >
+            <option value="" disabled>
+              Bundled level…
+            </option>
+            {BUNDLED_LEVELS.map((l, i) => (
+              <option key={l.name} value={i}>
+                {l.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <p className="text-xs text-gray-600">Format version {LEVEL_FORMAT}. See lib/pacman/levels for the file format.</p>
+      </div>
+    </div>
+  );
+}
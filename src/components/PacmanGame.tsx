@@ -1,474 +1,292 @@
 'use client';
 
-import { useRef, useEffect, useState } from 'react';
+import Image from 'next/image';
+import { useCallback, useRef, useEffect, useState } from 'react';
+import {
+  createPacmanState,
+  Direction,
+  FIELD_HEIGHT,
+  FIELD_WIDTH,
+  HUNT_MS,
+  HUNTER_GHOST,
+  huntWinner,
+  leadingPlayer,
+  PacmanMode,
+  PacmanRules,
+  pacSize,
+  PacmanState,
+  step,
+} from '@/lib/pacman/engine';
+import { START_LIVES } from '@/lib/pacman/difficulty';
+import type { PacmanLevel } from '@/lib/pacman/levels';
+import { DIRECTION_CODES } from '@/lib/pacman/replay';
+import type { PacmanEvents } from '@/lib/pacman/events';
+import { connectPacmanSounds } from '@/lib/pacman/sounds';
+import { connectPacmanEffects } from '@/lib/pacman/effects';
+import { connectPacmanStats } from '@/lib/pacman/stats';
+import { pacmanBotDirection } from '@/lib/pacman/bot';
+import {
+  interpolatePacman,
+  loadPacmanSprites,
+  PacmanSprites,
+  renderPacman,
+} from '@/lib/pacman/render';
+import { startFixedStepLoop } from '@/lib/loop';
+import GameOverOverlay from '@/components/GameOverOverlay';
+import PauseOverlay, { useAutoPause } from '@/components/PauseOverlay';
+import TwoPlayerResults from '@/components/TwoPlayerResults';
+import { moveOf, PACMAN_ACTIONS, stickDirection } from '@/lib/input';
+import { createEmitter, emitAll } from '@/lib/emitter';
+import { createEffects, drawEffects, shakeOffset, updateEffects } from '@/lib/effects';
+import { useGameAudio } from '@/lib/useGameAudio';
+import { useGameCanvas } from '@/lib/useGameCanvas';
+import { fieldBoxStyle } from '@/lib/viewport';
+import { useCoarsePointer, useGameInput, usePointerGestures } from '@/lib/useGameInput';
+import { randomSeed } from '@/lib/random';
+import { createReplayRecorder, Replay, ReplayRecorder } from '@/lib/replay';
 
 /**
  * A lightweight Pac-Man-style mini-game rendered on an HTML5 canvas.
  *
  * Gameplay (very simplified):
- *   • Move Pac-Man with the arrow keys / WASD.
- *   • Eat as many cherries as you can to score points.
- *   • Do NOT collide with the roaming ghost – it ends the game.
- *   • Click the canvas or press any arrow / WASD key to start. After a game-over, do the same to restart.
+ *   • Move Pac-Man with the arrow keys / WASD (rebindable), a gamepad, or by
+ *     swiping on the field or tapping next to Pac-Man; touch screens also get an on-screen d-pad.
+ *   • Two can play on one keyboard: WASD moves player 1 and the arrows player 2
+ *     (or one gamepad each), in co-op or versus – see PacmanRules. Touch input moves player 1.
+ *   • In a ghost hunt player 2 steers a ghost instead, against player 1 or a bot
+ *     Pac-Man; with the bot, every control steers the ghost.
+ *   • Eat as many cherries as you can to score points – or, in maze mode, clear
+ *     every pellet to advance a level.
+ *   • Don't let the ghosts catch you – each catch costs one of three lives, and
+ *     reaching certain scores earns an extra one.
+ *   • Tap the field or press any arrow / WASD key to start. After a game-over, press a key or "Play again";
+ *     two-player rounds end on a results screen naming the winner.
+ *   • P or Escape (or Start) pauses; the game also pauses itself when the tab or window loses focus.
  *
  *  Graphics are taken from the public folder:
  *   /Pacman.svg, /cherry.svg, /ghost.svg.
  */
-export default function PacmanGame() {
+const RULES_LABELS: Record<PacmanRules, string> = {
+  solo: '1 player',
+  coop: 'Co-op',
+  versus: 'Versus',
+  hunt: 'Ghost hunt',
+};
+
+/** Points per player – or per side in a hunt, Pac-Man first. */
+const sideScores = (state: PacmanState) =>
+  state.rules === 'hunt' ? [state.players[0].score, state.ghostScore] : state.players.map((p) => p.score);
+
+/** Whole seconds left in a hunt. */
+const huntSecondsLeft = (state: PacmanState) => Math.max(0, Math.ceil((HUNT_MS - state.time) / 1000));
+
+type Props = {
+  /** Play these maze levels instead of the bundled ones (used for play-testing in the editor). */
+  levels?: readonly PacmanLevel[];
+};
+
+export default function PacmanGame({ levels }: Props = {}) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const fieldRef = useRef<HTMLDivElement>(null);
 
   /* ---------- React state ----------- */
   const [score, setScore] = useState(0);
   const [started, setStarted] = useState(false);
   const [gameOver, setGameOver] = useState(false);
-  const [isMobile, setIsMobile] = useState(false);
-
-  /* ---------- Game constants ----------- */
-  const width = 500;
-  const height = 500;
-
-  // Actor sizes (in px)
-  const PAC_SIZE = 34; // drawn at 34×34 so that the 30-ish sprite fits neatly
-  const GHOST_SIZE = 34;
-  const CHERRY_SIZE = 26;
-  const APEX_SIZE = 36;
-
-  // Speeds (px per frame)
-  const PAC_SPEED = 3.2;
-  const GHOST_SPEED = 2.0;
-  const CHASE_RADIUS = 150;
-
-  /* ---------- Static barriers (walls/obstacles) ----------- */
-  // Four rectangles forming a square hoop in the center
-  const barriers = [
-    { x: width / 2 - 60, y: height / 2 - 120, w: 120, h: 10 }, // top horizontal
-    { x: width / 2 - 60, y: height / 2 + 100, w: 120, h: 10 }, // bottom horizontal
-    { x: width / 2 - 120, y: height / 2 - 60, w: 10, h: 120 }, // left vertical
-    { x: width / 2 + 110, y: height / 2 - 60, w: 10, h: 120 }, // right vertical
-
-    // Side vertical bars
-    { x: 50, y: 150, w: 10, h: 200 }, // left bar
-    { x: width - 60, y: 150, w: 10, h: 200 }, // right bar
-    // Top and bottom horizontal bars
-    { x: 150, y: 40, w: 200, h: 10 }, // top bar
-    { x: 150, y: height - 70, w: 200, h: 10 }, // bottom bar
-    // Frame walls (10px thick)
-    { x: 0, y: 0, w: width, h: 10 }, // top wall
-    { x: 0, y: height - 10, w: width, h: 10 }, // bottom wall
-    { x: 0, y: 0, w: 10, h: height }, // left wall
-    { x: width - 10, y: 0, w: 10, h: height }, // right wall
-  ];
-
-  // Helper to test AABB collision with a barrier
-  const collidesBarrier = (x: number, y: number, size: number) =>
-    barriers.some(
-      (b) => x < b.x + b.w && x + size > b.x && y < b.y + b.h && y + size > b.y
-    );
+  const [paused, setPaused] = useState(false);
+  const [mode, setMode] = useState<PacmanMode>(levels ? 'maze' : 'classic');
+  const [rules, setRules] = useState<PacmanRules>('solo');
+  // Hunt: a bot plays Pac-Man, so one player can take on the ghost's role alone
+  const [pacmanBot, setPacmanBot] = useState(true);
+  const [huntSeconds, setHuntSeconds] = useState(HUNT_MS / 1000);
+  const [level, setLevel] = useState(1);
+  const [lives, setLives] = useState(START_LIVES);
+  // Each player's own points and (in versus) lives
+  const [playerScores, setPlayerScores] = useState<number[]>([0]);
+  const [playerLives, setPlayerLives] = useState<number[]>([START_LIVES]);
+  const [replay, setReplay] = useState<Replay | null>(null);
+
+  const width = FIELD_WIDTH;
+  const height = FIELD_HEIGHT;
 
   /* ---------- Mutable refs that survive re-renders ----------- */
-  const pacman = useRef({ x: width / 2, y: height / 2, dx: 0, dy: 0 });
-
-  /* ---------- Ghosts ----------- */
-  type Ghost = {
-    x: number;
-    y: number;
-    dx: number;
-    dy: number;
-    vulnerableUntil: number; // timestamp (ms) until which ghost is vulnerable
-    eatenUntil: number; // timestamp (ms) until which ghost is hidden (after being eaten)
-  };
-  const NUM_GHOSTS = 3;
-  const ghosts = useRef<Ghost[]>([]);
-  const cherries = useRef<{ x: number; y: number }[]>([]);
-  const animationRef = useRef<number | null>(null);
-  const apexRef = useRef<{ x: number; y: number } | null>(null);
-  const apexRespawnAt = useRef<number>(0);
-
-  /* ---------- Image assets ----------- */
-  const pacImgRef = useRef<HTMLImageElement | null>(null);
-  const ghostImgRef = useRef<HTMLImageElement | null>(null);
-  const ghostWhiteImgRef = useRef<HTMLImageElement | null>(null);
-  const cherryImgRef = useRef<HTMLImageElement | null>(null);
-  const apexImgRef = useRef<HTMLImageElement | null>(null);
+  // The simulation itself lives in the headless engine, see lib/pacman/engine
+  const game = useRef<PacmanState | null>(null);
+  if (game.current === null) {
+    game.current = createPacmanState(randomSeed(), { mode, rules, levels });
+  }
+  // Custom levels can't be replayed from a seed alone, and replays carry one player's
+  // inputs, so only bundled one-player rounds are recorded
+  const newRecorder = (state: PacmanState) =>
+    levels || state.rules !== 'solo' ? null : createReplayRecorder('pacman', state.seed, state.mode);
+  const recorder = useRef<ReplayRecorder | null>(null);
+  if (recorder.current === null) {
+    recorder.current = newRecorder(game.current);
+  }
+  // Direction each player asked for since the last step
+  const pendingDirections = useRef<(Direction | null)[]>([null, null]);
+  const prevGame = useRef<PacmanState | null>(null);
+  const spritesRef = useRef<PacmanSprites | null>(null);
 
   useEffect(() => {
     // Preload images only once
-    const pac = new Image();
-    pac.src = '/Pacman.svg';
-    pacImgRef.current = pac;
-
-    const gh = new Image();
-    gh.src = '/ghost.svg';
-    ghostImgRef.current = gh;
-
-    const ghWhite = new Image();
-    ghWhite.src = '/ghost_white.svg';
-    ghostWhiteImgRef.current = ghWhite;
-
-    const ch = new Image();
-    ch.src = '/cherry.svg';
-    cherryImgRef.current = ch;
-
-    const apexImg = new Image();
-    apexImg.src = '/apex.png';
-    apexImgRef.current = apexImg;
+    spritesRef.current = loadPacmanSprites();
   }, []);
 
-  /* ---------- Helper functions ----------- */
-  const randomPos = (size: number) => {
-    let pos;
-    // Keep generating positions until the item does not spawn inside a barrier
-    do {
-      pos = {
-        x: Math.random() * (width - size),
-        y: Math.random() * (height - size),
-      };
-    } while (collidesBarrier(pos.x, pos.y, size));
-    return pos;
+  /* ---------- Reset game ----------- */
+  const resetGame = (nextMode = mode, nextRules = rules) => {
+    game.current = createPacmanState(randomSeed(), { mode: nextMode, rules: nextRules, levels });
+    recorder.current = newRecorder(game.current);
+    prevGame.current = null;
+    pendingDirections.current = [null, null];
+    setScore(0);
+    setLevel(1);
+    setLives(START_LIVES);
+    setPlayerScores(sideScores(game.current));
+    setHuntSeconds(huntSecondsLeft(game.current));
+    setPlayerLives(game.current.players.map((p) => p.lives));
+    setReplay(null);
+    setGameOver(false);
+    setStarted(false);
+    setPaused(false);
   };
 
-  const spawnCherries = (count = 5) => {
-    const arr = new Array(count).fill(0).map(() => randomPos(CHERRY_SIZE));
-    cherries.current = arr;
+  const selectMode = (nextMode: PacmanMode) => {
+    setMode(nextMode);
+    resetGame(nextMode);
   };
 
-  // Spawn ghosts helper
-  const spawnGhosts = () => {
-    ghosts.current = Array.from({ length: NUM_GHOSTS }, () => {
-      const pos = randomPos(GHOST_SIZE);
-      const angle = Math.random() * Math.PI * 2;
-      return {
-        x: pos.x,
-        y: pos.y,
-        dx: Math.cos(angle) * GHOST_SPEED,
-        dy: Math.sin(angle) * GHOST_SPEED,
-        vulnerableUntil: 0,
-        eatenUntil: 0,
-      } as Ghost;
-    });
+  const selectRules = (nextRules: PacmanRules) => {
+    setRules(nextRules);
+    resetGame(mode, nextRules);
   };
 
-  // Spawn apex helper
-  const spawnApex = () => {
-    apexRef.current = randomPos(APEX_SIZE);
+  const restartGame = () => {
+    resetGame();
+    setStarted(true);
   };
 
-  // Initial spawn of cherries and ghosts
-  useEffect(() => {
-    spawnCherries();
-    spawnGhosts();
-    spawnApex();
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
-
-  /* ---------- Reset game ----------- */
-  const resetGame = () => {
-    pacman.current = { x: width / 2, y: height / 2, dx: 0, dy: 0 };
-    spawnGhosts();
-    spawnCherries();
-    setScore(0);
-    setGameOver(false);
-    setStarted(false);
-  };
+  /* ---------- Pause ----------- */
+  const running = started && !gameOver;
+  const pause = useCallback(() => setPaused(true), []);
+  useAutoPause(running && !paused, pause);
+  useGameAudio('pacman', running && !paused);
 
   /* ---------- Controls ----------- */
-  useEffect(() => {
-    const handleKey = (e: KeyboardEvent) => {
-      const code = e.code;
-      if (!started && !gameOver) {
-        setStarted(true);
-      }
-      if (gameOver) {
-        resetGame();
-        setStarted(true);
-        return;
-      }
-      switch (code) {
-        case 'ArrowUp':
-        case 'KeyW':
-          changeDirection('up');
-          break;
-        case 'ArrowDown':
-        case 'KeyS':
-          changeDirection('down');
-          break;
-        case 'ArrowLeft':
-        case 'KeyA':
-          changeDirection('left');
-          break;
-        case 'ArrowRight':
-        case 'KeyD':
-          changeDirection('right');
-          break;
-      }
-    };
-    window.addEventListener('keydown', handleKey);
+  useGameInput(PACMAN_ACTIONS, (action) => {
+    const move = moveOf(action);
+    if (action === 'pause') {
+      if (running) setPaused(!paused);
+    } else if (move) {
+      changeDirection(move.direction, move.player);
+    }
+  });
+
+  const { draw, toGame } = useGameCanvas(canvasRef, width, height);
 
-    const canvas = canvasRef.current;
-    const handleClick = () => {
+  // Restarting is left to the game-over panel, so a stray tap can't throw away the name entry
+  usePointerGestures(fieldRef, {
+    onTap: (e) => {
       if (!started) {
         setStarted(true);
-      } else if (gameOver) {
-        resetGame();
-        setStarted(true);
+      } else if (!gameOver && game.current) {
+        // Head for the tapped spot along whichever axis is further off
+        const at = toGame(e.clientX, e.clientY);
+        const steered = steersGhost() ? game.current.ghosts[HUNTER_GHOST] : game.current.players[0];
+        const half = pacSize(game.current) / 2;
+        const direction = stickDirection(at.x - steered.x - half, at.y - steered.y - half, half);
+        if (direction) changeDirection(direction);
       }
-    };
-    canvas?.addEventListener('mousedown', handleClick);
+    },
+    onSwipe: (direction) => {
+      if (!gameOver) changeDirection(direction);
+    },
+  });
 
-    return () => {
-      window.removeEventListener('keydown', handleKey);
-      canvas?.removeEventListener('mousedown', handleClick);
-      if (animationRef.current !== null) {
-        cancelAnimationFrame(animationRef.current);
-      }
+  // Touch screens get an on-screen d-pad
+  const coarsePointer = useCoarsePointer();
+
+  /* ---------- Game events ----------- */
+  // The engine reports what happened each step; the HUD, sound and the rest listen here
+  const [events] = useState(() => createEmitter<PacmanEvents>());
+  // Particles, popups and shake, drawn over the scene
+  const [fx] = useState(createEffects);
+
+  useEffect(() => {
+    const updateScore = () => {
+      setScore(game.current?.score ?? 0);
+      if (game.current) setPlayerScores(sideScores(game.current));
     };
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [gameOver, started]);
+    const offs = [
+      events.on('cherryEaten', updateScore),
+      events.on('pelletEaten', updateScore),
+      events.on('ghostEaten', updateScore),
+      events.on('levelCleared', ({ level }) => setLevel(level + 1)),
+      events.on('extraLife', ({ lives }) => setLives(lives)),
+      events.on('playerDied', () => {
+        setLives(game.current?.lives ?? 0);
+        setPlayerLives(game.current?.players.map((p) => p.lives) ?? []);
+        if (!game.current?.gameOver) return;
+        updateScore();
+        setReplay(recorder.current?.finish(game.current.score) ?? null);
+        setGameOver(true);
+      }),
+      events.on('timeUp', () => {
+        updateScore();
+        setGameOver(true);
+      }),
+      connectPacmanSounds(events),
+      connectPacmanEffects(events, fx, () => game.current),
+    ];
+    // Play-tests of custom levels and two-player rounds don't count towards stats and achievements
+    if (!levels && rules === 'solo') offs.push(connectPacmanStats(events, () => game.current));
+    return () => offs.forEach((off) => off());
+  }, [events, fx, levels, rules]);
 
   /* ---------- Main game loop ----------- */
   useEffect(() => {
     const ctx = canvasRef.current?.getContext('2d');
     if (!ctx) return;
 
-    const draw = () => {
-      // ---- Update logic ----
-      if (started && !gameOver) {
-        // Pac-Man movement with barrier collision check
-        const prevPacX = pacman.current.x;
-        const prevPacY = pacman.current.y;
-        pacman.current.x += pacman.current.dx;
-        pacman.current.y += pacman.current.dy;
-
-        if (collidesBarrier(pacman.current.x, pacman.current.y, PAC_SIZE)) {
-          // Revert movement if hitting barrier
-          pacman.current.x = prevPacX;
-          pacman.current.y = prevPacY;
-          pacman.current.dx = 0;
-          pacman.current.dy = 0;
-        }
-
-        // Keep Pac-Man inside frame walls (prevent leaving play area)
-        if (pacman.current.x < 10) pacman.current.x = 10;
-        if (pacman.current.x > width - PAC_SIZE - 10) pacman.current.x = width - PAC_SIZE - 10;
-        if (pacman.current.y < 10) pacman.current.y = 10;
-        if (pacman.current.y > height - PAC_SIZE - 10) pacman.current.y = height - PAC_SIZE - 10;
-
-        const now = Date.now();
-
-        // Ghosts movement
-        ghosts.current.forEach((g) => {
-          if (now < g.eatenUntil) {
-            // Skip movement & drawing when ghost is eaten
-            return;
-          }
-
-          const prevX = g.x;
-          const prevY = g.y;
-         
-          g.x += g.dx;
-          g.y += g.dy;
-
-          // Bounce off canvas edges
-          if (g.x < 0) {
-            g.x = 0;
-            g.dx *= -1;
-          } else if (g.x > width - GHOST_SIZE) {
-            g.x = width - GHOST_SIZE;
-            g.dx *= -1;
-          }
-          if (g.y < 0) {
-            g.y = 0;
-            g.dy *= -1;
-          } else if (g.y > height - GHOST_SIZE) {
-            g.y = height - GHOST_SIZE;
-            g.dy *= -1;
-          }
-
-          if (collidesBarrier(g.x, g.y, GHOST_SIZE)) {
-            g.x = prevX;
-            g.y = prevY;
-            g.dx *= -1;
-            g.dy *= -1;
-          }
-
-          // Chase Pac-Man if nearby and ghost is not vulnerable
-          const distToPac = Math.hypot(
-            pacman.current.x - g.x,
-            pacman.current.y - g.y
-          );
-          if (distToPac < CHASE_RADIUS && now >= g.vulnerableUntil) {
-            const angleToPac = Math.atan2(
-              pacman.current.y - g.y,
-              pacman.current.x - g.x
-            );
-            g.dx = Math.cos(angleToPac) * GHOST_SPEED;
-            g.dy = Math.sin(angleToPac) * GHOST_SPEED;
-          } else if (Math.random() < 0.02) {
-            // Randomly change direction when not chasing
-            const ang = Math.random() * Math.PI * 2;
-            g.dx = Math.cos(ang) * GHOST_SPEED;
-            g.dy = Math.sin(ang) * GHOST_SPEED;
-          }
-        });
-
-        // Check cherry collisions
-        cherries.current = cherries.current.filter((cherry) => {
-          const dist = Math.hypot(
-            (pacman.current.x + PAC_SIZE / 2) - (cherry.x + CHERRY_SIZE / 2),
-            (pacman.current.y + PAC_SIZE / 2) - (cherry.y + CHERRY_SIZE / 2)
-          );
-          const eaten = dist < (PAC_SIZE + CHERRY_SIZE) / 2;
-          if (eaten) {
-            setScore((s) => s + 1);
-          }
-          return !eaten;
-        });
-        // Ensure there are always cherries to eat
-        while (cherries.current.length < 5) {
-          cherries.current.push(randomPos(CHERRY_SIZE));
-        }
-
-        // Apex collision
-        if (apexRef.current) {
-          const d = Math.hypot(
-            pacman.current.x + PAC_SIZE / 2 - (apexRef.current.x + APEX_SIZE / 2),
-            pacman.current.y + PAC_SIZE / 2 - (apexRef.current.y + APEX_SIZE / 2)
-          );
-          if (d < (PAC_SIZE + APEX_SIZE) / 2) {
-            apexRef.current = null;
-            apexRespawnAt.current = Date.now() + 15000; // respawn in 15s
-            const vulnerableUntil = Date.now() + 10000; // 10s
-            ghosts.current.forEach((g) => {
-              g.vulnerableUntil = vulnerableUntil;
-            });
-          }
-        }
-
-        // Handle apex respawn
-        if (!apexRef.current && now > apexRespawnAt.current) {
-          spawnApex();
-        }
-
-        // Check ghost collision
-        ghosts.current.forEach((g) => {
-          if (now < g.eatenUntil) return; // ignore inactive ghosts
-
-          const dist = Math.hypot(
-            pacman.current.x + PAC_SIZE / 2 - (g.x + GHOST_SIZE / 2),
-            pacman.current.y + PAC_SIZE / 2 - (g.y + GHOST_SIZE / 2)
-          );
-
-          if (dist < (PAC_SIZE + GHOST_SIZE) / 2) {
-            if (now < g.vulnerableUntil) {
-              // Pac-Man eats ghost
-              setScore((s) => s + 10);
-              g.eatenUntil = now + 2000; // hide for 2s
-              g.x = width / 2 - GHOST_SIZE / 2;
-              g.y = height / 2 - GHOST_SIZE / 2;
-              // reset direction
-              const ang = Math.random() * Math.PI * 2;
-              g.dx = Math.cos(ang) * GHOST_SPEED;
-              g.dy = Math.sin(ang) * GHOST_SPEED;
-            } else {
-              // Pac-Man hit active ghost -> game over
-              setGameOver(true);
-            }
-          }
+    // Fixed-timestep physics, rendering interpolated between the last two steps
+    return startFixedStepLoop({
+      update: (dtMs) => {
+        // ---- Update logic ----
+        if (!started || gameOver || paused || !game.current || game.current.gameOver) return;
+        const [direction, direction2] = pendingDirections.current;
+        const input =
+          game.current.rules === 'hunt'
+            ? { direction: pacmanBot ? pacmanBotDirection(game.current) : direction, ghostDirection: direction2 }
+            : { direction, direction2 };
+        const next = step(game.current, input, dtMs);
+        recorder.current?.tick(direction && DIRECTION_CODES[direction]);
+        pendingDirections.current = [null, null];
+        prevGame.current = game.current;
+        game.current = next;
+        emitAll(events, next.events);
+        if (next.rules === 'hunt') setHuntSeconds(huntSecondsLeft(next));
+      },
+      render: (alpha) => {
+        if (!game.current) return;
+        const shown = prevGame.current ? interpolatePacman(prevGame.current, game.current, alpha) : game.current;
+        draw(ctx, () => {
+          updateEffects(fx, performance.now(), paused);
+          const offset = shakeOffset(fx);
+          ctx.translate(offset.x, offset.y);
+          renderPacman(ctx, shown, spritesRef.current);
+          drawEffects(ctx, fx);
         });
-      }
-
-      // ---- Draw section ----
-      // Background
-      ctx.fillStyle = '#000';
-      ctx.fillRect(0, 0, width, height);
-
-      // Draw cherries
-      cherries.current.forEach((cherry) => {
-        if (cherryImgRef.current && cherryImgRef.current.complete) {
-          ctx.drawImage(cherryImgRef.current, cherry.x, cherry.y, CHERRY_SIZE, CHERRY_SIZE);
-        } else {
-          ctx.fillStyle = '#ff001b';
-          ctx.beginPath();
-          ctx.arc(cherry.x + CHERRY_SIZE / 2, cherry.y + CHERRY_SIZE / 2, CHERRY_SIZE / 2, 0, Math.PI * 2);
-          ctx.fill();
-        }
-      });
-
-      // Draw ghosts
-      ghosts.current.forEach((g) => {
-        if (Date.now() < g.eatenUntil) return; // skip drawing when eaten
-
-        const isVulnerable = Date.now() < g.vulnerableUntil;
-        const imgToUse = isVulnerable && ghostWhiteImgRef.current && ghostWhiteImgRef.current.complete
-          ? ghostWhiteImgRef.current
-          : ghostImgRef.current;
-        if (imgToUse && imgToUse.complete) {
-          ctx.drawImage(imgToUse, g.x, g.y, GHOST_SIZE, GHOST_SIZE);
-        } else {
-          ctx.fillStyle = isVulnerable ? '#ffffff' : '#ff001b';
-          ctx.fillRect(g.x, g.y, GHOST_SIZE, GHOST_SIZE);
-        }
-      });
-
-      // Draw Pac-Man
-      if (pacImgRef.current && pacImgRef.current.complete) {
-        ctx.drawImage(pacImgRef.current, pacman.current.x, pacman.current.y, PAC_SIZE, PAC_SIZE);
-      } else {
-        ctx.fillStyle = '#ffd65b';
-        ctx.beginPath();
-        ctx.arc(pacman.current.x + PAC_SIZE / 2, pacman.current.y + PAC_SIZE / 2, PAC_SIZE / 2, 0.25 * Math.PI, 1.75 * Math.PI);
-        ctx.lineTo(pacman.current.x + PAC_SIZE / 2, pacman.current.y + PAC_SIZE / 2);
-        ctx.fill();
-      }
-
-      // Draw barriers
-      ctx.fillStyle = '#0033cc';
-      barriers.forEach((b) => {
-        ctx.fillRect(b.x, b.y, b.w, b.h);
-      });
-
-      // Draw Apex power-up
-      if (apexRef.current) {
-        if (apexImgRef.current && apexImgRef.current.complete) {
-          ctx.drawImage(
-            apexImgRef.current,
-            apexRef.current.x,
-            apexRef.current.y,
-            APEX_SIZE,
-            APEX_SIZE
-          );
-        } else {
-          ctx.fillStyle = '#FFD700';
-          ctx.beginPath();
-          ctx.arc(
-            apexRef.current.x + APEX_SIZE / 2,
-            apexRef.current.y + APEX_SIZE / 2,
-            APEX_SIZE / 2,
-            0,
-            Math.PI * 2
-          );
-          ctx.fill();
-        }
-      }
-
-      // Loop
-      animationRef.current = requestAnimationFrame(draw);
-    };
-
-    draw();
-
+      },
+    });
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [started, gameOver]);
+  }, [started, gameOver, paused]);
 
-  // Detect mobile device once on mount
-  useEffect(() => {
-    if (typeof navigator !== 'undefined') {
-      setIsMobile(/Mobi|Android|iPhone|iPad|iPod/i.test(navigator.userAgent));
-    }
-  }, []);
+  // Hunt against the bot: whatever would move Pac-Man steers the ghost
+  const steersGhost = () => rules === 'hunt' && pacmanBot;
 
-  // Helper to change direction (used by keys and touch buttons)
-  const changeDirection = (dir: 'up' | 'down' | 'left' | 'right') => {
+  // Helper to change direction (used by keys, swipes and touch buttons)
+  const changeDirection = (dir: Direction, player = 0) => {
+    if (paused) return;
     // Start or restart game if necessary
     if (!started) {
       setStarted(true);
@@ -478,70 +296,145 @@ export default function PacmanGame() {
       setStarted(true);
     }
 
-    switch (dir) {
-      case 'up':
-        pacman.current.dy = -PAC_SPEED;
-        pacman.current.dx = 0;
-        break;
-      case 'down':
-        pacman.current.dy = PAC_SPEED;
-        pacman.current.dx = 0;
-        break;
-      case 'left':
-        pacman.current.dx = -PAC_SPEED;
-        pacman.current.dy = 0;
-        break;
-      case 'right':
-        pacman.current.dx = PAC_SPEED;
-        pacman.current.dy = 0;
-        break;
-    }
+    // Alone, either set of keys moves the one Pac-Man
+    const side = rules === 'solo' ? 0 : steersGhost() ? 1 : player;
+    pendingDirections.current[side] = dir;
   };
 
   const controlBtnClass =
-    'bg-gray-700/80 text-white w-12 h-12 rounded flex items-center justify-center text-xl active:bg-gray-900';
+    'bg-gray-700/80 text-white w-12 h-12 rounded flex items-center justify-center text-xl active:bg-gray-900 touch-none select-none';
 
   /* ---------- React render ----------- */
   return (
-    <div className="flex flex-col items-center gap-4">
+    <div className="flex flex-col items-center gap-4 w-full">
       <h1 className="text-2xl font-bold mb-2">Pac-Man Mini-Game</h1>
       <p className="text-center text-sm max-w-md">
         Use the arrow keys (or WASD) to move Pac-Man around, collect cherries, and
-        avoid the ghosts!
+        avoid the ghosts! With two players, player 1 uses WASD and player 2 the arrow keys – in a
+        ghost hunt, player 2 is the ringed ghost.
       </p>
-      <div className="relative">
-        <canvas
-          ref={canvasRef}
-          width={width}
-          height={height}
-          className="border-2 border-yellow-400 bg-black"
-        />
-        {/* Score */}
-        <span className="absolute top-2 left-2 text-2xl font-extrabold text-yellow-300 drop-shadow-md">
-          {score}
+      {/* No scrolling or zooming the page while swiping on the field */}
+      <div ref={fieldRef} className="relative touch-none" style={fieldBoxStyle(width, height)}>
+        <canvas ref={canvasRef} className="block w-full h-full border-2 border-yellow-400 bg-black" />
+        {/* Score, per player when two are playing */}
+        {rules === 'solo' ? (
+          <span className="absolute top-2 left-2 text-2xl font-extrabold text-yellow-300 drop-shadow-md">
+            {score}
+          </span>
+        ) : (
+          <span className="absolute top-2 left-2 flex gap-3 text-lg font-extrabold drop-shadow-md">
+            {playerScores.map((s, i) => (
+              <span key={i} className={i === 0 ? 'text-yellow-300' : 'text-emerald-300'}>
+                {rules === 'hunt' ? (i === 0 ? 'Pac-Man' : 'Ghosts') : `P${i + 1}`} {s}
+                {rules === 'versus' && ` ♥${playerLives[i] ?? 0}`}
+              </span>
+            ))}
+          </span>
+        )}
+        <span className="absolute top-2 right-2 text-lg font-bold text-yellow-300 drop-shadow-md">
+          {rules === 'hunt' ? `${huntSeconds}s` : `Level ${level}`}
         </span>
+        {/* Lives left (shared; versus shows each player's next to their score, a hunt has just the one) */}
+        {(rules === 'solo' || rules === 'coop') && (
+          <div className="absolute bottom-2 left-2 flex gap-1" aria-label={`${lives} lives`}>
+            {Array.from({ length: lives }, (_, i) => (
+              <Image key={i} src="/Pacman.svg" alt="" width={20} height={20} />
+            ))}
+          </div>
+        )}
+        {running && !paused && (
+          <button
+            type="button"
+            onClick={pause}
+            aria-label="Pause"
+            className="absolute bottom-2 right-2 w-8 h-8 rounded bg-white/20 hover:bg-white/30 text-white font-bold"
+          >
+            ❚❚
+          </button>
+        )}
         {/* Overlay messages */}
+        {running && paused && <PauseOverlay onResume={() => setPaused(false)} />}
         {!started && !gameOver && (
           <div className="absolute inset-0 flex flex-col items-center justify-center text-center bg-black/40 text-white px-4 select-none">
             <p className="text-lg font-semibold">Click or press an arrow key to start!</p>
+            <div className="flex gap-2 mt-3">
+              {(['solo', 'coop', 'versus', 'hunt'] as const).map((r) => (
+                <button
+                  key={r}
+                  type="button"
+                  onClick={() => selectRules(r)}
+                  className={`px-3 py-1 rounded text-sm font-semibold ${
+                    r === rules ? 'bg-yellow-400 text-black' : 'bg-white/20 hover:bg-white/30'
+                  }`}
+                >
+                  {RULES_LABELS[r]}
+                </button>
+              ))}
+            </div>
+            {rules === 'hunt' && (
+              <div className="flex gap-2 mt-3 items-center text-sm">
+                Pac-Man:
+                {[false, true].map((bot) => (
+                  <button
+                    key={String(bot)}
+                    type="button"
+                    onClick={() => setPacmanBot(bot)}
+                    className={`px-3 py-1 rounded font-semibold ${
+                      bot === pacmanBot ? 'bg-yellow-400 text-black' : 'bg-white/20 hover:bg-white/30'
+                    }`}
+                  >
+                    {bot ? 'Bot' : 'Player 1'}
+                  </button>
+                ))}
+              </div>
+            )}
+            {!levels && (
+              <div className="flex gap-2 mt-3">
+                {(['classic', 'maze'] as const).map((m) => (
+                  <button
+                    key={m}
+                    type="button"
+                    onClick={() => selectMode(m)}
+                    className={`px-3 py-1 rounded text-sm font-semibold ${
+                      m === mode ? 'bg-yellow-400 text-black' : 'bg-white/20 hover:bg-white/30'
+                    }`}
+                  >
+                    {m === 'classic' ? 'Classic' : 'Maze'}
+                  </button>
+                ))}
+              </div>
+            )}
           </div>
         )}
-        {gameOver && (
-          <div className="absolute inset-0 flex flex-col items-center justify-center text-center bg-black/60 text-white px-4 select-none">
-            <p className="text-xl font-bold mb-2">Game Over</p>
-            <p className="mb-4">Your score: {score}</p>
-            <p className="text-sm">Click or press an arrow key to play again</p>
-          </div>
+        {gameOver && rules !== 'solo' && (
+          <TwoPlayerResults
+            rules={rules}
+            scores={playerScores}
+            winner={game.current && (rules === 'hunt' ? huntWinner(game.current) : leadingPlayer(game.current))}
+            restartHint="Click or press a move key to play again"
+            onRestart={restartGame}
+          />
+        )}
+        {gameOver && rules === 'solo' && (
+          <GameOverOverlay
+            game="pacman"
+            score={score}
+            durationMs={game.current?.time ?? 0}
+            mode={mode}
+            saveScores={!levels}
+            replay={replay}
+            restartHint="Click or press an arrow key to play again"
+            onRestart={restartGame}
+          />
         )}
       </div>
-      {isMobile && (
+      {coarsePointer && (
         <div className="mt-4 grid grid-cols-3 gap-2 w-40">
           <div></div>
           <button
             aria-label="Up"
             className={controlBtnClass}
-            onTouchStart={() => changeDirection('up')}
-            onClick={() => changeDirection('up')}
+            onPointerDown={() => changeDirection('up')}
           >
             ↑
           </button>
@@ -549,24 +442,21 @@ export default function PacmanGame() {
           <button
             aria-label="Left"
             className={controlBtnClass}
-            onTouchStart={() => changeDirection('left')}
-            onClick={() => changeDirection('left')}
+            onPointerDown={() => changeDirection('left')}
           >
             ←
           </button>
           <button
             aria-label="Down"
             className={controlBtnClass}
-            onTouchStart={() => changeDirection('down')}
-            onClick={() => changeDirection('down')}
+            onPointerDown={() => changeDirection('down')}
           >
             ↓
           </button>
           <button
             aria-label="Right"
             className={controlBtnClass}
-            onTouchStart={() => changeDirection('right')}
-            onClick={() => changeDirection('right')}
+            onPointerDown={() => changeDirection('right')}
           >
             →
           </button>
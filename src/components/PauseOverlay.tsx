@@ -0,0 +1,65 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { getBindings, keyLabel } from '@/lib/input';
+
+/**
+ * Pause the game whenever the player looks away: the tab is hidden or the
+ * window loses focus. `running` is whether there is anything to pause.
+ *
+ * The engines only advance when stepped, so nothing moves (and no timer runs
+ * out) until the player resumes.
+ */
+export function useAutoPause(running: boolean, pause: () => void) {
+  useEffect(() => {
+    if (!running) return;
+    const handleVisibility = () => {
+      if (document.hidden) pause();
+    };
+    document.addEventListener('visibilitychange', handleVisibility);
+    window.addEventListener('blur', pause);
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibility);
+      window.removeEventListener('blur', pause);
+    };
+  }, [running, pause]);
+}
+
+type Props = {
+  onResume: () => void;
+};
+
+/** Panel shown over a paused game, shared by all games. */
+export default function PauseOverlay({ onResume }: Props) {
+  // Mounted only while a game is running, so reading localStorage here is safe
+  const [keys] = useState(() => getBindings().pause.map(keyLabel));
+
+  return (
+    <div
+      className="absolute inset-0 flex flex-col items-center justify-center text-center bg-black/60 text-white px-4 select-none"
+      onMouseDown={(e) => e.stopPropagation()}
+    >
+      <p className="text-xl font-bold mb-2">Paused</p>
+      {keys.length > 0 && (
+        <p className="text-sm mb-3">
+          Press{' '}
+          {keys.map((key, i) => (
+            <span key={key}>
+              {i > 0 && ' or '}
+              <kbd className="px-1 py-0.5 border rounded">{key}</kbd>
+            </span>
+          ))}{' '}
+          to resume
+        </p>
+      )}
+      <button
+        type="button"
+        autoFocus
+        onClick={onResume}
+        className="px-3 py-1 rounded bg-yellow-400 text-black font-semibold"
+      >
+        Resume
+      </button>
+    </div>
+  );
+}
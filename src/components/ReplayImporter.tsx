@@ -0,0 +1,48 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import ReplayPlayer from '@/components/ReplayPlayer';
+import { parseReplay, Replay } from '@/lib/replay';
+
+/** Open a replay file someone shared and play it back. */
+export default function ReplayImporter({ game }: { game: string }) {
+  const [replay, setReplay] = useState<Replay | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const openFile = async (file: File) => {
+    try {
+      const loaded = parseReplay(JSON.parse(await file.text()));
+      if (loaded.game !== game) throw new Error(`That is a replay of "${loaded.game}", not this game`);
+      setReplay(loaded);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-4">
+      {replay && <ReplayPlayer replay={replay} />}
+      <button
+        type="button"
+        onClick={() => fileInput.current?.click()}
+        className="px-4 py-2 rounded bg-yellow-400 font-semibold"
+      >
+        {replay ? 'Open another replay' : 'Open replay file'}
+      </button>
+      <input
+        ref={fileInput}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) openFile(file);
+          e.target.value = '';
+        }}
+      />
+      {error && <p className="text-sm text-red-700">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,232 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import * as flappy from '@/lib/flappy/engine';
+import { flappyReplaySim } from '@/lib/flappy/replay';
+import { FlappySprites, interpolateFlappy, loadFlappySprites, renderFlappy } from '@/lib/flappy/render';
+import { STEP_MS, startFixedStepLoop } from '@/lib/loop';
+import { useGameCanvas } from '@/lib/useGameCanvas';
+import { fieldBoxStyle } from '@/lib/viewport';
+import * as pacman from '@/lib/pacman/engine';
+import { pacmanReplaySim } from '@/lib/pacman/replay';
+import { interpolatePacman, loadPacmanSprites, PacmanSprites, renderPacman } from '@/lib/pacman/render';
+import {
+  createReplayRunner,
+  downloadReplay,
+  Replay,
+  ReplayRunner,
+  ReplaySim,
+  verifyReplayGradually,
+} from '@/lib/replay';
+
+/**
+ * Plays a recorded round back on a canvas, with pause, seeking and playback
+ * speed. The round is re-simulated from the replay's seed and inputs, so what
+ * you see is exactly what the engine makes of them.
+ */
+
+/** How to run and draw one game's replays. */
+type ReplayView<S, Sprites> = {
+  sim: ReplaySim<S>;
+  width: number;
+  height: number;
+  loadSprites: () => Sprites;
+  interpolate: (prev: S, next: S, alpha: number) => S;
+  render: (ctx: CanvasRenderingContext2D, state: S, sprites: Sprites | null) => void;
+};
+
+const PACMAN_VIEW: ReplayView<pacman.PacmanState, PacmanSprites> = {
+  sim: pacmanReplaySim,
+  width: pacman.FIELD_WIDTH,
+  height: pacman.FIELD_HEIGHT,
+  loadSprites: loadPacmanSprites,
+  interpolate: interpolatePacman,
+  render: renderPacman,
+};
+
+const FLAPPY_VIEW: ReplayView<flappy.FlappyState, FlappySprites> = {
+  sim: flappyReplaySim,
+  width: flappy.FIELD_WIDTH,
+  height: flappy.FIELD_HEIGHT,
+  loadSprites: loadFlappySprites,
+  interpolate: interpolateFlappy,
+  render: renderFlappy,
+};
+
+const SPEEDS = [0.25, 0.5, 1, 2, 4];
+
+const formatTime = (steps: number) => {
+  const seconds = Math.floor((steps * STEP_MS) / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+type Props = {
+  replay: Replay;
+  onClose?: () => void;
+};
+
+export default function ReplayPlayer(props: Props) {
+  // Keyed by game, so switching games starts a fresh player
+  switch (props.replay.game) {
+    case 'pacman':
+      return <GameReplayPlayer key="pacman" {...props} gameView={PACMAN_VIEW} />;
+    case 'flappy':
+      return <GameReplayPlayer key="flappy" {...props} gameView={FLAPPY_VIEW} />;
+    default:
+      return <p className="text-sm text-red-700">There is no player for &quot;{props.replay.game}&quot; replays.</p>;
+  }
+}
+
+/** The player for one game; its state and sprites stay typed through to the renderer. */
+function GameReplayPlayer<S, Sprites>({ replay, onClose, gameView }: Props & { gameView: ReplayView<S, Sprites> }) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const { draw } = useGameCanvas(canvasRef, gameView.width, gameView.height);
+
+  const runner = useMemo<ReplayRunner<S>>(() => createReplayRunner(replay, gameView.sim), [replay, gameView]);
+
+  /* ---------- React state ----------- */
+  const [position, setPosition] = useState(0);
+  const [playing, setPlaying] = useState(true);
+  const [speed, setSpeed] = useState(1);
+  const [verified, setVerified] = useState<boolean | null>(null);
+  // Seeking is limited to the part already checked, which is cheap to reach
+  const [checkedSteps, setCheckedSteps] = useState(0);
+
+  /* ---------- Playback refs ----------- */
+  const stepRef = useRef(0);
+  const current = useRef<S | null>(null);
+  const prev = useRef<S | null>(null);
+  const spritesRef = useRef<Sprites | null>(null);
+
+  useEffect(() => {
+    spritesRef.current = gameView.loadSprites();
+  }, [gameView]);
+
+  // Start over whenever a different replay comes in
+  useEffect(() => {
+    current.current = runner.stateAt(0);
+    prev.current = null;
+    stepRef.current = 0;
+    setPosition(0);
+    setPlaying(true);
+    setVerified(null);
+    setCheckedSteps(0);
+
+    // Playing it through once checks the score and fills in the seek checkpoints
+    return verifyReplayGradually(runner, setCheckedSteps, setVerified);
+  }, [runner]);
+
+  const seek = (target: number) => {
+    const step = Math.min(target, Math.max(checkedSteps, stepRef.current));
+    current.current = runner.stateAt(step);
+    prev.current = null;
+    stepRef.current = step;
+    setPosition(step);
+  };
+
+  /* ---------- Playback loop ----------- */
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+
+    // One replay step per loop step; faster playback just means shorter loop steps
+    return startFixedStepLoop({
+      stepMs: STEP_MS / speed,
+      update: () => {
+        if (!playing || current.current === null) return;
+        if (stepRef.current >= replay.steps) {
+          setPlaying(false);
+          return;
+        }
+        prev.current = current.current;
+        current.current = runner.advance(current.current, stepRef.current);
+        stepRef.current += 1;
+        setPosition(stepRef.current);
+      },
+      render: (alpha) => {
+        if (current.current === null) return;
+        const shown =
+          playing && prev.current !== null
+            ? gameView.interpolate(prev.current, current.current, alpha)
+            : current.current;
+        draw(ctx, () => gameView.render(ctx, shown, spritesRef.current));
+      },
+    });
+  }, [playing, speed, runner, gameView, replay.steps, draw]);
+
+  const togglePlaying = () => {
+    // Play from the top once the end is reached
+    if (!playing && stepRef.current >= replay.steps) seek(0);
+    setPlaying(!playing);
+  };
+
+  /* ---------- React render ----------- */
+  return (
+    <div className="flex flex-col items-center gap-3">
+      <canvas
+        ref={canvasRef}
+        style={fieldBoxStyle(gameView.width, gameView.height, '60dvh', '85vw')}
+        className="block border-2 border-gray-700 bg-black"
+      />
+      <div className="flex items-center gap-3 w-full max-w-md text-sm">
+        <button
+          type="button"
+          onClick={togglePlaying}
+          className="px-3 py-1 rounded bg-yellow-400 text-black font-semibold w-20"
+        >
+          {playing ? 'Pause' : 'Play'}
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={replay.steps}
+          value={position}
+          onChange={(e) => seek(Number(e.target.value))}
+          aria-label="Seek"
+          className="flex-1"
+        />
+        <span className="tabular-nums">
+          {formatTime(position)} / {formatTime(replay.steps)}
+        </span>
+      </div>
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <label className="flex items-center gap-1">
+          Speed
+          <select
+            value={speed}
+            onChange={(e) => setSpeed(Number(e.target.value))}
+            className="px-1 py-0.5 border rounded text-black"
+          >
+            {SPEEDS.map((s) => (
+              <option key={s} value={s}>
+                {s}×
+              </option>
+            ))}
+          </select>
+        </label>
+        <span>
+          Score {replay.score}
+          {verified === null && (
+            <span className="ml-1 text-gray-500">
+              checking… {Math.floor((checkedSteps / Math.max(replay.steps, 1)) * 100)}%
+            </span>
+          )}
+          {verified === true && <span className="ml-1 text-green-600 font-semibold">✓ verified</span>}
+          {verified === false && <span className="ml-1 text-red-600 font-semibold">✗ doesn&apos;t match</span>}
+        </span>
+        <button
+          type="button"
+          onClick={() => downloadReplay(replay)}
+          className="px-3 py-1 rounded bg-gray-200 text-black hover:bg-gray-300"
+        >
+          Download
+        </button>
+        {onClose && (
+          <button type="button" onClick={onClose} className="px-3 py-1 rounded bg-gray-200 text-black hover:bg-gray-300">
+            Close
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { achievementsFor, getUnlockedAchievements } from '@/lib/achievements';
+import { GameStats, getGameStats, scoreBucket, STAT_LINES } from '@/lib/stats';
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(seconds / 60);
+  const time = `${minutes % 60}:${String(seconds % 60).padStart(2, '0')}`;
+  return minutes >= 60 ? `${Math.floor(minutes / 60)}:${time.padStart(5, '0')}` : time;
+};
+
+/**
+ * Lifetime stats, score histogram and achievements for one game on this device.
+ * Reads localStorage after mount to avoid hydration mismatches.
+ */
+export default function StatsPanel({ game }: { game: string }) {
+  const [stats, setStats] = useState<GameStats | null>(null);
+  const [unlocked, setUnlocked] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    setStats(getGameStats(game));
+    setUnlocked(getUnlockedAchievements());
+  }, [game]);
+
+  if (stats === null) return null;
+
+  const rows: [string, string][] = [
+    ['Runs played', String(stats.runs)],
+    ['Time played', formatDuration(stats.playMs)],
+    ['Longest survival', formatDuration(stats.longestMs)],
+    ['Best score', String(stats.bestScore)],
+    ...(STAT_LINES[game] ?? []).map(({ key, label, kind, time }): [string, string] => {
+      const value = (kind === 'total' ? stats.totals : stats.bests)[key] ?? 0;
+      return [label, time ? formatDuration(value) : String(value)];
+    }),
+  ];
+
+  // One bar per bucket from 0 up to the best score, empty buckets included
+  const bucket = scoreBucket(game);
+  const bars = Array.from({ length: Math.floor(stats.bestScore / bucket) + 1 }, (_, i) => ({
+    from: i * bucket,
+    runs: stats.histogram[i * bucket] ?? 0,
+  }));
+  const mostRuns = Math.max(1, ...bars.map((b) => b.runs));
+
+  const achievements = achievementsFor(game);
+
+  return (
+    <div className="flex flex-col items-center gap-6 w-full max-w-md">
+      <table className="w-full text-left bg-white rounded-lg shadow">
+        <tbody>
+          {rows.map(([label, value]) => (
+            <tr key={label} className="border-b last:border-0">
+              <th className="p-2 font-normal">{label}</th>
+              <td className="p-2 text-right font-semibold tabular-nums">{value}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <section className="w-full">
+        <h2 className="text-lg font-semibold mb-2">Scores</h2>
+        {stats.runs === 0 ? (
+          <p className="text-sm text-gray-600">No runs yet – go play one!</p>
+        ) : (
+          <ul className="flex flex-col gap-1 text-sm">
+            {bars.map(({ from, runs }) => (
+              <li key={from} className="flex items-center gap-2">
+                <span className="w-20 text-right tabular-nums text-gray-600">
+                  {from}–{from + bucket - 1}
+                </span>
+                <span className="flex-1 h-4 bg-white rounded">
+                  <span className="block h-full rounded bg-sky-500" style={{ width: `${(runs / mostRuns) * 100}%` }} />
+                </span>
+                <span className="w-8 tabular-nums">{runs}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      <section className="w-full">
+        <h2 className="text-lg font-semibold mb-2">
+          Achievements ({achievements.filter((a) => unlocked[a.id]).length}/{achievements.length})
+        </h2>
+        <ul className="flex flex-col gap-2">
+          {achievements.map((a) => (
+            <li
+              key={a.id}
+              className={`p-2 rounded-lg shadow ${unlocked[a.id] ? 'bg-yellow-100' : 'bg-white text-gray-500'}`}
+            >
+              <p className="font-semibold">
+                {unlocked[a.id] ? '★' : '☆'} {a.title}
+              </p>
+              <p className="text-sm">
+                {a.description}
+                {unlocked[a.id] && (
+                  <span className="text-gray-600"> – {new Date(unlocked[a.id]).toLocaleDateString()}</span>
+                )}
+              </p>
+            </li>
+          ))}
+        </ul>
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+'use client';
+
+import type { PacmanRules } from '@/lib/pacman/engine';
+
+type Props = {
+  rules: Exclude<PacmanRules, 'solo'>;
+  /** Each player's own points, player 1 first; in a hunt, Pac-Man's side then the ghosts'. */
+  scores: readonly number[];
+  /** Index of the winning player or side, null on a tie. */
+  winner: number | null;
+  restartHint: string;
+  onRestart: () => void;
+};
+
+/**
+ * End of a two-player round: who won and both scores. Versus is won on
+ * points; in co-op the team shares the score and the top scorer gets the
+ * credit; a hunt is won by catching Pac-Man or by holding out. Two-player
+ * scores don't go on the leaderboards.
+ */
+export default function TwoPlayerResults({ rules, scores, winner, restartHint, onRestart }: Props) {
+  const total = scores.reduce((sum, score) => sum + score, 0);
+  const name = (i: number) => (rules === 'hunt' ? (i === 0 ? 'Pac-Man' : 'Ghosts') : `Player ${i + 1}`);
+  const headline =
+    rules === 'hunt'
+      ? winner === 0
+        ? 'Pac-Man got away!'
+        : 'The ghosts caught Pac-Man!'
+      : rules === 'versus'
+      ? winner === null
+        ? "It's a draw!"
+        : `Player ${winner + 1} wins!`
+      : winner === null
+        ? 'Perfect teamwork!'
+        : `Player ${winner + 1} carried the team!`;
+
+  return (
+    <div className="absolute inset-0 flex flex-col items-center justify-center text-center bg-black/60 text-white px-4 select-none">
+      <p className="text-xl font-bold mb-2">{headline}</p>
+      {rules === 'coop' && <p className="mb-2">Team score: {total}</p>}
+      <table className="mb-4 text-sm">
+        <tbody>
+          {scores.map((score, i) => (
+            <tr key={i} className={i === winner ? 'font-bold text-yellow-300' : ''}>
+              <td className="px-2 text-left">{name(i)}</td>
+              <td className="px-2 text-right tabular-nums">{score}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p className="text-sm mb-2">{restartHint}</p>
+      <button
+        type="button"
+        onClick={onRestart}
+        className="px-3 py-1 rounded bg-white/20 hover:bg-white/30 text-sm font-semibold"
+      >
+        Play again
+      </button>
+    </div>
+  );
+}
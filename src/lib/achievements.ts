@@ -0,0 +1,148 @@
+import { createEmitter } from './emitter';
+import type { GameStats, RunStats } from './stats';
+import { isRecord, versionedStorage } from './storage';
+
+/**
+ * Achievements: goals checked against the current run and the lifetime stats
+ * (see ./stats) whenever a run's counters change. Unlocks are kept in
+ * localStorage and announced on `achievementUnlocks`, which the toasts
+ * listen to.
+ */
+
+export type AchievementProgress = {
+  run: RunStats;
+  /** Lifetime stats from before the run. */
+  lifetime: GameStats;
+};
+
+export type Achievement = {
+  id: string;
+  /** Registry slug of the game. */
+  game: string;
+  title: string;
+  description: string;
+  earned(progress: AchievementProgress): boolean;
+};
+
+/** Lifetime total of a counter, including the run in progress. */
+const totalOf = ({ run, lifetime }: AchievementProgress, key: string) =>
+  (lifetime.totals[key] ?? 0) + (run.counts[key] ?? 0);
+
+const TWO_MINUTES = 2 * 60 * 1000;
+
+export const ACHIEVEMENTS: readonly Achievement[] = [
+  {
+    id: 'pacman-clean-sweep',
+    game: 'pacman',
+    title: 'Clean sweep',
+    description: 'Eat all 3 ghosts in one apex power-up',
+    earned: ({ run }) => (run.bests.ghostsPerPowerUp ?? 0) >= 3,
+  },
+  {
+    id: 'pacman-cold-turkey',
+    game: 'pacman',
+    title: 'Cold turkey',
+    description: 'Survive 2 minutes without the apex',
+    earned: ({ run }) => (run.bests.msWithoutPowerUp ?? 0) >= TWO_MINUTES,
+  },
+  {
+    id: 'pacman-level-5',
+    game: 'pacman',
+    title: 'Five alive',
+    description: 'Reach level 5',
+    earned: ({ run }) => (run.bests.level ?? 0) >= 5,
+  },
+  {
+    id: 'pacman-cherry-picker',
+    game: 'pacman',
+    title: 'Cherry picker',
+    description: 'Eat 500 cherries',
+    earned: (progress) => totalOf(progress, 'cherries') >= 500,
+  },
+  {
+    id: 'pacman-ghostbuster',
+    game: 'pacman',
+    title: 'Ghostbuster',
+    description: 'Eat 100 ghosts',
+    earned: (progress) => totalOf(progress, 'ghosts') >= 100,
+  },
+  {
+    id: 'flappy-lift-off',
+    game: 'flappy',
+    title: 'Lift-off',
+    description: 'Pass your first pipe',
+    earned: ({ run }) => (run.counts.pipes ?? 0) >= 1,
+  },
+  {
+    id: 'flappy-half-century',
+    game: 'flappy',
+    title: 'Half century',
+    description: 'Pass 50 pipes in one run',
+    earned: ({ run }) => (run.counts.pipes ?? 0) >= 50,
+  },
+  {
+    id: 'flappy-marathon',
+    game: 'flappy',
+    title: 'Marathon',
+    description: 'Stay in the air for 2 minutes',
+    earned: ({ run }) => run.durationMs >= TWO_MINUTES,
+  },
+  {
+    id: 'flappy-frequent-flyer',
+    game: 'flappy',
+    title: 'Frequent flyer',
+    description: 'Pass 1,000 pipes',
+    earned: (progress) => totalOf(progress, 'pipes') >= 1000,
+  },
+];
+
+export const achievementsFor = (game: string) => ACHIEVEMENTS.filter((a) => a.game === game);
+
+/* ---------- Unlocks ----------- */
+
+const STORAGE_KEY = 'apex-game:achievements';
+const SCHEMA_VERSION = 1;
+
+/** ISO timestamp each achievement was unlocked at, by id. */
+type UnlockStore = { unlocked: Record<string, string> };
+
+const storage = versionedStorage(STORAGE_KEY, SCHEMA_VERSION, ({ unlocked }): UnlockStore => {
+  const dates: Record<string, string> = {};
+  if (isRecord(unlocked)) {
+    for (const [id, date] of Object.entries(unlocked)) {
+      if (typeof date === 'string') dates[id] = date;
+    }
+  }
+  return { unlocked: dates };
+});
+
+const load = () => storage.load() ?? { unlocked: {} };
+
+export const getUnlockedAchievements = (): Record<string, string> => load().unlocked;
+
+export const achievementUnlocks = createEmitter<{ unlocked: Achievement }>();
+
+/**
+ * Checker for one run of `game`: unlocks and announces the achievements
+ * `progress` newly earns. What's already unlocked is read once, up front, so
+ * checking is cheap enough for every counter change; storage is only written
+ * when something unlocks.
+ */
+export function createAchievementChecker(game: string) {
+  const { unlocked } = load();
+  let locked = achievementsFor(game).filter((a) => !unlocked[a.id]);
+
+  return (progress: AchievementProgress) => {
+    const earned = locked.filter((a) => a.earned(progress));
+    if (!earned.length) return;
+    locked = locked.filter((a) => !earned.includes(a));
+
+    // Read again before writing, so unlocks saved since the run began are kept
+    const store = load();
+    const date = new Date().toISOString();
+    for (const achievement of earned) store.unlocked[achievement.id] = date;
+    // Announced even if storage is full or disabled; it can then be earned again next run
+    storage.save(store);
+    for (const achievement of earned) achievementUnlocks.emit('unlocked', achievement);
+  };
+}
@@ -0,0 +1,129 @@
+import { createEmitter } from '@/lib/emitter';
+import { AUDIO_SETTINGS_CHANGE_EVENT, AudioSettings, getAudioSettings } from './settings';
+import { MUSIC, MusicTrack, playMusicStep, SOUNDS, SoundId } from './synth';
+
+/**
+ * The audio engine: one Web Audio graph shared by all games.
+ *
+ *   effects ─┐
+ *            ├─ master ─ speakers
+ *   music ───┘
+ *
+ * Games never call it directly. They emit cues on `soundCues` and the engine,
+ * once connected (see connectAudio), plays them. Browsers only allow audio
+ * after a user gesture, so the AudioContext is created on the first key press
+ * or pointer press; cues before that are dropped, except that the requested
+ * music starts as soon as it can.
+ */
+
+export type SoundCues = {
+  /** Play a one-shot effect. */
+  sound: SoundId;
+  /** Loop a track, or stop the music with null. */
+  music: MusicTrack | null;
+};
+
+export const soundCues = createEmitter<SoundCues>();
+
+/** How far ahead (s) music notes are scheduled, and how often (ms) the scheduler wakes up. */
+const MUSIC_LOOKAHEAD = 0.15;
+const MUSIC_TICK_MS = 50;
+
+type AudioEngine = {
+  play(id: SoundId): void;
+  setMusic(track: MusicTrack | null): void;
+  applySettings(settings: AudioSettings): void;
+};
+
+function createAudioEngine(): AudioEngine {
+  let ctx: AudioContext | null = null;
+  let master: GainNode | null = null;
+  let musicBus: GainNode | null = null;
+  let sfxBus: GainNode | null = null;
+  let settings = getAudioSettings();
+
+  let track: MusicTrack | null = null;
+  let musicTimer: ReturnType<typeof setInterval> | null = null;
+
+  const applyGains = () => {
+    if (!ctx || !master || !musicBus || !sfxBus) return;
+    const t = ctx.currentTime;
+    master.gain.setTargetAtTime(settings.muted ? 0 : settings.master, t, 0.02);
+    musicBus.gain.setTargetAtTime(settings.music, t, 0.02);
+    sfxBus.gain.setTargetAtTime(settings.sfx, t, 0.02);
+  };
+
+  const stopMusic = () => {
+    if (musicTimer !== null) clearInterval(musicTimer);
+    musicTimer = null;
+  };
+
+  const startMusic = () => {
+    stopMusic();
+    if (!ctx || !musicBus || !track) return;
+    const audio = ctx;
+    const out = musicBus;
+    const pattern = MUSIC[track];
+    const stepSeconds = 60 / pattern.bpm / pattern.subdivision;
+    let index = 0;
+    let nextAt = audio.currentTime + 0.05;
+    const schedule = () => {
+      while (nextAt < audio.currentTime + MUSIC_LOOKAHEAD) {
+        playMusicStep(audio, out, pattern, index, nextAt);
+        index += 1;
+        nextAt += stepSeconds;
+      }
+    };
+    schedule();
+    musicTimer = setInterval(schedule, MUSIC_TICK_MS);
+  };
+
+  const unlock = () => {
+    if (!ctx) {
+      ctx = new AudioContext();
+      master = ctx.createGain();
+      musicBus = ctx.createGain();
+      sfxBus = ctx.createGain();
+      musicBus.connect(master);
+      sfxBus.connect(master);
+      master.connect(ctx.destination);
+      applyGains();
+    }
+    void ctx.resume().then(() => {
+      window.removeEventListener('pointerdown', unlock, true);
+      window.removeEventListener('keydown', unlock, true);
+      if (track && musicTimer === null) startMusic();
+    });
+  };
+  window.addEventListener('pointerdown', unlock, true);
+  window.addEventListener('keydown', unlock, true);
+
+  return {
+    play(id) {
+      if (!ctx || !sfxBus || ctx.state !== 'running') return;
+      SOUNDS[id](ctx, sfxBus, ctx.currentTime);
+    },
+    setMusic(next) {
+      if (next === track) return;
+      track = next;
+      if (ctx?.state === 'running') startMusic();
+      else stopMusic();
+    },
+    applySettings(next) {
+      settings = next;
+      applyGains();
+    },
+  };
+}
+
+let connected = false;
+
+/** Start listening to `soundCues` (browser only; later calls do nothing). */
+export function connectAudio() {
+  if (connected || typeof window === 'undefined' || typeof AudioContext === 'undefined') return;
+  connected = true;
+  const engine = createAudioEngine();
+  soundCues.on('sound', engine.play);
+  soundCues.on('music', engine.setMusic);
+  window.addEventListener(AUDIO_SETTINGS_CHANGE_EVENT, () => engine.applySettings(getAudioSettings()));
+}
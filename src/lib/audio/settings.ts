@@ -0,0 +1,45 @@
+import { isRecord, versionedStorage } from '@/lib/storage';
+
+/**
+ * Volume settings, kept in localStorage and versioned like the key bindings
+ * (see lib/storage).
+ * Volumes are 0..1; music and effects are scaled by the master volume.
+ */
+
+export type AudioSettings = {
+  master: number;
+  music: number;
+  sfx: number;
+  muted: boolean;
+};
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = { master: 0.8, music: 0.5, sfx: 0.8, muted: false };
+
+const STORAGE_KEY = 'apex-game:audio';
+const SCHEMA_VERSION = 1;
+/** Fired on window when the settings are saved, so the audio engine picks them up. */
+export const AUDIO_SETTINGS_CHANGE_EVENT = 'apex-game:audio-changed';
+
+const volume = (value: unknown, fallback: number) =>
+  typeof value === 'number' && value >= 0 && value <= 1 ? value : fallback;
+
+/** Saved settings; anything out of range falls back to its default. */
+const storage = versionedStorage(STORAGE_KEY, SCHEMA_VERSION, ({ settings }) => {
+  const saved: Partial<Record<keyof AudioSettings, unknown>> = isRecord(settings) ? settings : {};
+  return {
+    settings: {
+      master: volume(saved.master, DEFAULT_AUDIO_SETTINGS.master),
+      music: volume(saved.music, DEFAULT_AUDIO_SETTINGS.music),
+      sfx: volume(saved.sfx, DEFAULT_AUDIO_SETTINGS.sfx),
+      muted: typeof saved.muted === 'boolean' ? saved.muted : DEFAULT_AUDIO_SETTINGS.muted,
+    },
+  };
+});
+
+export const getAudioSettings = (): AudioSettings => storage.load()?.settings ?? { ...DEFAULT_AUDIO_SETTINGS };
+
+/** Save the settings; if storage is full or disabled they last until reload. */
+export function saveAudioSettings(settings: AudioSettings) {
+  storage.save({ settings });
+  window.dispatchEvent(new CustomEvent(AUDIO_SETTINGS_CHANGE_EVENT));
+}
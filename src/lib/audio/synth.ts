@@ -0,0 +1,132 @@
+/**
+ * Every sound is synthesised on the fly with oscillators and noise – no audio
+ * files to load. A recipe schedules its nodes at time `t` on `ctx` and lets
+ * them stop themselves.
+ */
+
+export type SoundId =
+  | 'waka'
+  | 'powerUp'
+  | 'ghostEaten'
+  | 'death'
+  | 'extraLife'
+  | 'levelUp'
+  | 'flap'
+  | 'score'
+  | 'crash';
+
+export type MusicTrack = 'pacman' | 'flappy';
+
+type Wave = OscillatorType;
+
+/** One oscillator note, optionally sliding from `from` to `to` Hz. */
+function tone(
+  ctx: BaseAudioContext,
+  out: AudioNode,
+  t: number,
+  { wave, from, to = from, duration, volume }: { wave: Wave; from: number; to?: number; duration: number; volume: number }
+) {
+  const osc = ctx.createOscillator();
+  const gain = ctx.createGain();
+  osc.type = wave;
+  osc.frequency.setValueAtTime(from, t);
+  if (to !== from) osc.frequency.exponentialRampToValueAtTime(to, t + duration);
+  gain.gain.setValueAtTime(0.0001, t);
+  gain.gain.exponentialRampToValueAtTime(volume, t + 0.005);
+  gain.gain.exponentialRampToValueAtTime(0.0001, t + duration);
+  osc.connect(gain).connect(out);
+  osc.start(t);
+  osc.stop(t + duration + 0.02);
+}
+
+/** Notes one after another, `step` seconds apart. */
+const arpeggio = (ctx: BaseAudioContext, out: AudioNode, t: number, wave: Wave, notes: number[], step: number) =>
+  notes.forEach((hz, i) => tone(ctx, out, t + i * step, { wave, from: hz, duration: step * 1.2, volume: 0.25 }));
+
+/** Low-passed white noise, for crashes. */
+function noise(ctx: BaseAudioContext, out: AudioNode, t: number, duration: number, volume: number) {
+  const buffer = ctx.createBuffer(1, Math.ceil(ctx.sampleRate * duration), ctx.sampleRate);
+  const data = buffer.getChannelData(0);
+  for (let i = 0; i < data.length; i++) data[i] = Math.random() * 2 - 1;
+
+  const src = ctx.createBufferSource();
+  const filter = ctx.createBiquadFilter();
+  const gain = ctx.createGain();
+  src.buffer = buffer;
+  filter.type = 'lowpass';
+  filter.frequency.setValueAtTime(1200, t);
+  gain.gain.setValueAtTime(volume, t);
+  gain.gain.exponentialRampToValueAtTime(0.0001, t + duration);
+  src.connect(filter).connect(gain).connect(out);
+  src.start(t);
+}
+
+export const SOUNDS: Record<SoundId, (ctx: BaseAudioContext, out: AudioNode, t: number) => void> = {
+  waka: (ctx, out, t) => tone(ctx, out, t, { wave: 'triangle', from: 320, to: 640, duration: 0.09, volume: 0.3 }),
+  powerUp: (ctx, out, t) => arpeggio(ctx, out, t, 'square', [392, 523, 659, 784, 1047], 0.06),
+  ghostEaten: (ctx, out, t) => tone(ctx, out, t, { wave: 'square', from: 1400, to: 180, duration: 0.28, volume: 0.2 }),
+  death: (ctx, out, t) => {
+    tone(ctx, out, t, { wave: 'sawtooth', from: 700, to: 300, duration: 0.45, volume: 0.2 });
+    tone(ctx, out, t + 0.45, { wave: 'sawtooth', from: 500, to: 60, duration: 0.6, volume: 0.2 });
+  },
+  extraLife: (ctx, out, t) => arpeggio(ctx, out, t, 'triangle', [659, 880, 1109, 1319], 0.08),
+  levelUp: (ctx, out, t) => arpeggio(ctx, out, t, 'square', [523, 659, 784, 1047, 784, 1047], 0.09),
+  flap: (ctx, out, t) => tone(ctx, out, t, { wave: 'triangle', from: 420, to: 900, duration: 0.08, volume: 0.2 }),
+  score: (ctx, out, t) => arpeggio(ctx, out, t, 'square', [988, 1319], 0.07),
+  crash: (ctx, out, t) => {
+    noise(ctx, out, t, 0.35, 0.5);
+    tone(ctx, out, t, { wave: 'sine', from: 160, to: 40, duration: 0.4, volume: 0.5 });
+  },
+};
+
+/* ---------- Music ----------- */
+
+/** A looping two-voice pattern; notes are MIDI numbers, null is a rest. */
+export type MusicPattern = {
+  bpm: number;
+  /** Notes per beat. */
+  subdivision: number;
+  lead: { wave: Wave; notes: (number | null)[] };
+  bass: { wave: Wave; notes: (number | null)[] };
+};
+
+export const midiToHz = (note: number) => 440 * 2 ** ((note - 69) / 12);
+
+export const MUSIC: Record<MusicTrack, MusicPattern> = {
+  pacman: {
+    bpm: 132,
+    subdivision: 2,
+    lead: {
+      wave: 'square',
+      notes: [71, 83, 78, 75, 83, 78, null, 75, 72, 84, 79, 76, 84, 79, null, 76],
+    },
+    bass: {
+      wave: 'triangle',
+      notes: [47, null, 59, null, 47, null, 59, null, 48, null, 60, null, 48, null, 60, null],
+    },
+  },
+  flappy: {
+    bpm: 112,
+    subdivision: 2,
+    lead: {
+      wave: 'triangle',
+      notes: [72, null, 76, 79, null, 76, 74, null, 71, null, 74, 77, null, 74, 72, null],
+    },
+    bass: {
+      wave: 'sine',
+      notes: [48, null, null, null, 55, null, null, null, 43, null, null, null, 50, null, null, null],
+    },
+  },
+};
+
+/** Schedule note `index` of a pattern's voices at time `t`. */
+export function playMusicStep(ctx: BaseAudioContext, out: AudioNode, pattern: MusicPattern, index: number, t: number) {
+  const duration = 60 / pattern.bpm / pattern.subdivision;
+  for (const [voice, volume] of [
+    [pattern.lead, 0.12],
+    [pattern.bass, 0.18],
+  ] as const) {
+    const note = voice.notes[index % voice.notes.length];
+    if (note !== null) tone(ctx, out, t, { wave: voice.wave, from: midiToHz(note), duration: duration * 0.9, volume });
+  }
+}
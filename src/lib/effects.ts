@@ -0,0 +1,203 @@
+/**
+ * Visual feedback drawn on top of a game: particle bursts, floating score
+ * popups and screen shake, plus helpers for frame-based sprite animation.
+ *
+ * This is presentation only. Effects live outside the engine state, run on
+ * wall-clock time and may use Math.random(), so they never affect a replay.
+ * Coordinates are game units, like the renderers.
+ */
+
+type Point = { x: number; y: number };
+
+type Particle = {
+  x: number;
+  y: number;
+  vx: number; // px per second
+  vy: number;
+  age: number; // ms
+  life: number;
+  size: number;
+  colour: string;
+};
+
+type Popup = { x: number; y: number; text: string; colour: string; age: number };
+
+export type Effects = {
+  particles: Particle[];
+  popups: Popup[];
+  shakeStrength: number; // px
+  shakeLeft: number; // ms
+  shakeDuration: number;
+  /** Wall-clock time of the last update, see updateEffects(). */
+  lastUpdate: number | null;
+  /** Held still, e.g. while the game is paused. */
+  frozen: boolean;
+};
+
+/** Particles fall a little, so bursts arc rather than fly off in straight lines. */
+const GRAVITY = 300; // px/s²
+const POPUP_MS = 800;
+const POPUP_RISE = 30; // px over its lifetime
+/** Cap, so a chain of events can't pile up thousands of particles. */
+const MAX_PARTICLES = 400;
+
+export const createEffects = (): Effects => ({
+  particles: [],
+  popups: [],
+  shakeStrength: 0,
+  shakeLeft: 0,
+  shakeDuration: 0,
+  lastUpdate: null,
+  frozen: false,
+});
+
+export type BurstOptions = {
+  colours: readonly string[];
+  count?: number;
+  /** Top speed in px per second. */
+  speed?: number;
+  /** Lifetime in ms. */
+  life?: number;
+  size?: number;
+};
+
+/** Particles flying out from `at` in all directions. */
+export function burst(fx: Effects, at: Point, { colours, count = 16, speed = 120, life = 600, size = 3 }: BurstOptions) {
+  for (let i = 0; i < count && fx.particles.length < MAX_PARTICLES; i++) {
+    const angle = Math.random() * Math.PI * 2;
+    const v = speed * (0.4 + Math.random() * 0.6);
+    fx.particles.push({
+      x: at.x,
+      y: at.y,
+      vx: Math.cos(angle) * v,
+      vy: Math.sin(angle) * v,
+      age: 0,
+      life: life * (0.6 + Math.random() * 0.4),
+      size,
+      colour: colours[i % colours.length],
+    });
+  }
+}
+
+/** Text such as "+10" rising from `at` and fading out. */
+export function popup(fx: Effects, at: Point, text: string, colour = '#fff') {
+  fx.popups.push({ x: at.x, y: at.y, text, colour, age: 0 });
+}
+
+/** Shake the whole scene for `ms`; a stronger shake overrides a weaker one in progress. */
+export function shake(fx: Effects, strength: number, ms: number) {
+  if (strength < fx.shakeStrength * (fx.shakeLeft / (fx.shakeDuration || 1))) return;
+  fx.shakeStrength = strength;
+  fx.shakeLeft = ms;
+  fx.shakeDuration = ms;
+}
+
+/**
+ * Advance everything to wall-clock time `now` (ms). While `frozen` (the game
+ * is paused) nothing moves, and afterwards effects carry on where they stopped.
+ */
+export function updateEffects(fx: Effects, now: number, frozen = false) {
+  fx.frozen = frozen;
+  if (frozen) {
+    fx.lastUpdate = null;
+    return;
+  }
+  // Long gaps (a background tab) just end whatever was running
+  const dt = fx.lastUpdate === null ? 0 : Math.min(now - fx.lastUpdate, 100);
+  fx.lastUpdate = now;
+  const s = dt / 1000;
+
+  fx.particles = fx.particles.filter((p) => {
+    p.age += dt;
+    p.vy += GRAVITY * s;
+    p.x += p.vx * s;
+    p.y += p.vy * s;
+    return p.age < p.life;
+  });
+  fx.popups = fx.popups.filter((p) => {
+    p.age += dt;
+    return p.age < POPUP_MS;
+  });
+  fx.shakeLeft = Math.max(fx.shakeLeft - dt, 0);
+}
+
+/** How far to move the scene this frame; shakes die down over their duration. */
+export function shakeOffset(fx: Effects): Point {
+  if (fx.shakeLeft <= 0 || fx.frozen) return { x: 0, y: 0 };
+  const amount = fx.shakeStrength * (fx.shakeLeft / fx.shakeDuration);
+  return { x: (Math.random() * 2 - 1) * amount, y: (Math.random() * 2 - 1) * amount };
+}
+
+/** Draw particles and popups (call after the scene, inside the same transform). */
+export function drawEffects(ctx: CanvasRenderingContext2D, fx: Effects) {
+  for (const p of fx.particles) {
+    ctx.globalAlpha = 1 - p.age / p.life;
+    ctx.fillStyle = p.colour;
+    ctx.fillRect(p.x - p.size / 2, p.y - p.size / 2, p.size, p.size);
+  }
+
+  ctx.font = 'bold 16px sans-serif';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  for (const p of fx.popups) {
+    const t = p.age / POPUP_MS;
+    ctx.globalAlpha = 1 - t * t;
+    ctx.fillStyle = p.colour;
+    ctx.fillText(p.text, p.x, p.y - POPUP_RISE * t);
+  }
+  ctx.globalAlpha = 1;
+}
+
+/* ---------- Frame animation ----------- */
+
+/** Which of `frames` frames to show at `timeMs`, playing at `fps` and looping. */
+export const animationFrame = (timeMs: number, frames: number, fps: number) =>
+  Math.floor((timeMs / 1000) * fps) % frames;
+
+/** Frames laid out left to right on one image (or canvas). */
+export type SpriteSheet = {
+  image: CanvasImageSource;
+  frameWidth: number;
+  frameHeight: number;
+  frames: number;
+};
+
+/** Draw frame `frame` of `sheet` into the box at (x, y). */
+export function drawSpriteFrame(
+  ctx: CanvasRenderingContext2D,
+  sheet: SpriteSheet,
+  frame: number,
+  x: number,
+  y: number,
+  w: number,
+  h: number
+) {
+  const f = ((frame % sheet.frames) + sheet.frames) % sheet.frames;
+  ctx.drawImage(sheet.image, f * sheet.frameWidth, 0, sheet.frameWidth, sheet.frameHeight, x, y, w, h);
+}
+
+/**
+ * Build a sheet by drawing each frame with `drawFrame` into a box of
+ * `size`×`size` px (browser only).
+ */
+export function buildSpriteSheet(
+  frames: number,
+  size: number,
+  drawFrame: (ctx: CanvasRenderingContext2D, frame: number) => void
+): SpriteSheet | null {
+  const canvas = document.createElement('canvas');
+  canvas.width = size * frames;
+  canvas.height = size;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  for (let f = 0; f < frames; f++) {
+    ctx.save();
+    ctx.translate(f * size, 0);
+    ctx.beginPath();
+    ctx.rect(0, 0, size, size);
+    ctx.clip();
+    drawFrame(ctx, f);
+    ctx.restore();
+  }
+  return { image: canvas, frameWidth: size, frameHeight: size, frames };
+}
@@ -0,0 +1,49 @@
+/**
+ * Minimal typed publish/subscribe. `Events` maps each event name to its
+ * payload type, so emitters and listeners can't disagree about either.
+ */
+
+export type Listener<T> = (payload: T) => void;
+
+export type Emitter<Events extends Record<string, unknown>> = {
+  /** Subscribe; returns the matching unsubscribe. */
+  on<K extends keyof Events>(type: K, listener: Listener<Events[K]>): () => void;
+  emit<K extends keyof Events>(type: K, payload: Events[K]): void;
+};
+
+export function createEmitter<Events extends Record<string, unknown>>(): Emitter<Events> {
+  const listeners = new Map<keyof Events, Set<Listener<never>>>();
+
+  return {
+    on(type, listener) {
+      let set = listeners.get(type);
+      if (!set) {
+        set = new Set();
+        listeners.set(type, set);
+      }
+      set.add(listener as Listener<never>);
+      return () => {
+        set.delete(listener as Listener<never>);
+      };
+    },
+    emit(type, payload) {
+      // Copy, so listeners can unsubscribe while being called
+      for (const listener of [...(listeners.get(type) ?? [])]) {
+        (listener as Listener<typeof payload>)(payload);
+      }
+    },
+  };
+}
+
+/** One event as a plain object, `{ type, ...payload }` – how engines record what happened. */
+export type EventOf<Events extends Record<string, unknown>> = {
+  [K in keyof Events]: { type: K } & Events[K];
+}[keyof Events];
+
+/** Emit recorded events in order; each listener gets the whole event object. */
+export function emitAll<Events extends Record<string, unknown>>(
+  emitter: Emitter<Events>,
+  events: readonly EventOf<Events>[]
+) {
+  for (const event of events) emitter.emit(event.type, event as Events[typeof event.type]);
+}
@@ -0,0 +1,21 @@
+import type { Emitter } from '@/lib/emitter';
+import { burst, Effects, popup, shake } from '@/lib/effects';
+import { BIRD_RADIUS, BIRD_X } from './engine';
+import type { FlappyEvents } from './events';
+
+/**
+ * Score popups, a crash burst and screen shake for each game event; returns
+ * the function that stops them. `birdY` gives where the bird is now.
+ */
+export function connectFlappyEffects(events: Emitter<FlappyEvents>, fx: Effects, birdY: () => number) {
+  const offs = [
+    events.on('pipePassed', ({ points }) => {
+      popup(fx, { x: BIRD_X, y: birdY() - BIRD_RADIUS * 2 }, `+${points}`);
+    }),
+    events.on('playerDied', ({ y }) => {
+      burst(fx, { x: BIRD_X, y }, { colours: ['#FFD700', '#ff9f1c', '#fff'], count: 28, speed: 180, life: 800 });
+      shake(fx, 10, 450);
+    }),
+  ];
+  return () => offs.forEach((off) => off());
+}
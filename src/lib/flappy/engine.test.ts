@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { STEP_MS } from '@/lib/loop';
+import { createFlappyState, FIELD_HEIGHT, FIELD_WIDTH, GROUND_Y, simulateFlappy, step } from './engine';
+
+/** Flap often enough to hover around the middle for a while. */
+const HOVER_FLAPS = Array.from({ length: 200 }, (_, i) => i * 26);
+
+const gaps = (seed: number, steps: number) =>
+  simulateFlappy(seed, HOVER_FLAPS, steps).pipes.map((p) => ({ id: p.id, gapY: p.gapY, gapHeight: p.gapHeight }));
+
+describe('simulateFlappy', () => {
+  it('lays out the same pipes for the same seed', () => {
+    const pipes = gaps(7, 400);
+    expect(pipes.length).toBeGreaterThan(1);
+    expect(gaps(7, 400)).toEqual(pipes);
+  });
+
+  it('lays out different pipes for another seed', () => {
+    expect(gaps(8, 400)).not.toEqual(gaps(7, 400));
+  });
+
+  it('keeps every gap on the field and clear of the ground', () => {
+    for (let seed = 1; seed <= 50; seed++) {
+      for (const pipe of simulateFlappy(seed, HOVER_FLAPS, 400).pipes) {
+        expect(pipe.gapY).toBeGreaterThan(0);
+        expect(pipe.gapY + pipe.gapHeight).toBeLessThan(GROUND_Y);
+      }
+    }
+  });
+
+  it('ends on the ground without any flaps', () => {
+    const state = simulateFlappy(1, []);
+    expect(state.gameOver).toBe(true);
+    expect(state.score).toBe(0);
+    expect(state.birdY).toBeLessThanOrEqual(FIELD_HEIGHT);
+  });
+
+  it('gives the same result for the same flaps', () => {
+    const flaps = [0, 20, 45, 70, 90, 118, 140, 160, 190, 215];
+    expect(simulateFlappy(99, flaps)).toEqual(simulateFlappy(99, flaps));
+  });
+});
+
+describe('Flappy step()', () => {
+  it('leaves the previous state untouched', () => {
+    const before = createFlappyState(5);
+    const snapshot = structuredClone(before);
+    step(before, { flap: true }, STEP_MS);
+    expect(before).toEqual(snapshot);
+  });
+
+  it('spawns pipes at the right edge', () => {
+    const state = step(createFlappyState(5), {}, STEP_MS);
+    expect(state.pipes).toHaveLength(1);
+    expect(state.pipes[0].x).toBeLessThanOrEqual(FIELD_WIDTH);
+  });
+});
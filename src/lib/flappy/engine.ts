@@ -0,0 +1,179 @@
+import { STEP_MS } from '@/lib/loop';
+import { createRng } from '@/lib/random';
+import type { FlappyEvent } from './events';
+import { FLAPPY_MODES, FlappyMode, pipeSettings } from './modes';
+
+/**
+ * Headless Flappy simulation.
+ *
+ * Gravity, pipe spawning, scoring and collisions live here, independent of the
+ * canvas. Pipe gaps come from a seeded generator kept in the state, so the same
+ * seed and the same flaps always give the same pipes and the same score –
+ * which is what daily challenges and regression checks rely on.
+ */
+
+/* ---------- Field constants ----------- */
+export const FIELD_WIDTH = 400;
+export const FIELD_HEIGHT = 600;
+export const BIRD_X = FIELD_WIDTH / 4;
+export const BIRD_RADIUS = 12;
+export const PIPE_WIDTH = 50;
+/** The ground strip along the bottom; touching it ends the run like the edges do. */
+export const GROUND_HEIGHT = 50;
+export const GROUND_Y = FIELD_HEIGHT - GROUND_HEIGHT;
+/** Gaps stay at least this far from the top and bottom edges (so always clear of the ground). */
+const GAP_MARGIN = 60;
+
+// Physics (per 60 Hz frame); gap sizes and pipe speeds depend on the mode, see ./modes
+const GRAVITY = 0.35;
+const FLAP_STRENGTH = -6;
+
+/** Duration of one reference frame – the physics above are expressed per frame. */
+const FRAME_MS = STEP_MS;
+
+/* ---------- Types ----------- */
+export type Pipe = {
+  id: number;
+  x: number;
+  gapY: number; // top of the gap
+  gapHeight: number;
+  baseGapY: number; // centre line of an oscillating gap
+  scored: boolean;
+};
+
+export type FlappyState = {
+  seed: number;
+  mode: FlappyMode;
+  rngState: number; // resumable generator state, see createRng()
+  time: number; // simulated ms since the first flap
+  nextPipeAt: number;
+  pipesSpawned: number;
+  birdY: number;
+  velocity: number;
+  /** How far the world has scrolled past, in px – what the scenery moves by. */
+  distance: number;
+  pipes: Pipe[];
+  score: number;
+  gameOver: boolean;
+  /** What happened during the last step, see ./events. */
+  events: FlappyEvent[];
+};
+
+export type FlappyInput = {
+  /** The player flapped since the previous step. */
+  flap?: boolean;
+};
+
+/* ---------- Public API ----------- */
+
+export function createFlappyState(seed: number, mode: FlappyMode = 'normal'): FlappyState {
+  return {
+    seed,
+    mode,
+    rngState: seed >>> 0,
+    time: 0,
+    nextPipeAt: 0,
+    pipesSpawned: 0,
+    birdY: FIELD_HEIGHT / 2,
+    velocity: 0,
+    distance: 0,
+    pipes: [],
+    score: 0,
+    gameOver: false,
+    events: [],
+  };
+}
+
+/**
+ * Advance the simulation by `dtMs` of game time. Pure: `state` is left
+ * untouched and the next state is returned.
+ */
+export function step(state: FlappyState, input: FlappyInput, dtMs: number): FlappyState {
+  if (state.gameOver) return state;
+
+  const rng = createRng(state.rngState);
+  const k = dtMs / FRAME_MS;
+  const time = state.time + dtMs;
+  let { nextPipeAt, pipesSpawned, score } = state;
+  const events: FlappyEvent[] = [];
+
+  let velocity = input.flap ? FLAP_STRENGTH : state.velocity;
+  velocity += GRAVITY * k;
+  const birdY = state.birdY + velocity * k;
+  if (input.flap) events.push({ type: 'flapped', y: state.birdY });
+
+  const { pipeIntervalMs, oscillation } = FLAPPY_MODES[state.mode];
+  const { gapHeight, pipeSpeed } = pipeSettings(state.mode, score);
+  const swing = oscillation?.amplitude ?? 0;
+
+  // Add new pipes periodically
+  let pipes = state.pipes.map((p) => ({ ...p }));
+  while (nextPipeAt <= state.time) {
+    const gapY = rng.next() * (FIELD_HEIGHT - gapHeight - 2 * (GAP_MARGIN + swing)) + GAP_MARGIN + swing;
+    pipes.push({ id: pipesSpawned++, x: FIELD_WIDTH, gapY, gapHeight, baseGapY: gapY, scored: false });
+    nextPipeAt += pipeIntervalMs;
+  }
+
+  // Move pipes & score when a pipe passes the bird
+  pipes.forEach((pipe) => {
+    pipe.x -= pipeSpeed * k;
+    if (oscillation) {
+      // Neighbouring pipes swing out of step with each other
+      const angle = (time / oscillation.periodMs) * Math.PI * 2 + pipe.id * 1.7;
+      pipe.gapY = pipe.baseGapY + Math.sin(angle) * swing;
+    }
+    if (!pipe.scored && pipe.x + PIPE_WIDTH < BIRD_X) {
+      pipe.scored = true;
+      events.push({ type: 'pipePassed', pipe: pipe.id, points: 1 });
+      score += 1;
+    }
+  });
+  // Remove off-screen pipes
+  pipes = pipes.filter((p) => p.x + PIPE_WIDTH > 0);
+
+  // Collision detection
+  const hitGround = birdY + BIRD_RADIUS > GROUND_Y;
+  const hitCeiling = birdY - BIRD_RADIUS < 0;
+  const hitPipe = pipes.some((pipe) => {
+    const withinX = BIRD_X + BIRD_RADIUS > pipe.x && BIRD_X - BIRD_RADIUS < pipe.x + PIPE_WIDTH;
+    if (!withinX) return false;
+    const withinGap = birdY - BIRD_RADIUS > pipe.gapY && birdY + BIRD_RADIUS < pipe.gapY + pipe.gapHeight;
+    return !withinGap;
+  });
+  const cause = hitPipe ? 'pipe' : hitGround ? 'ground' : hitCeiling ? 'ceiling' : null;
+  if (cause) events.push({ type: 'playerDied', cause, y: birdY });
+
+  return {
+    ...state,
+    rngState: rng.getState(),
+    time,
+    nextPipeAt,
+    pipesSpawned,
+    birdY,
+    velocity,
+    distance: state.distance + pipeSpeed * k,
+    pipes,
+    score,
+    gameOver: cause !== null,
+    events,
+  };
+}
+
+/**
+ * Play a whole run without a renderer. `flaps` lists the step indices on which
+ * the player flapped; the run ends on a crash or after `maxSteps`.
+ */
+export function simulateFlappy(
+  seed: number,
+  flaps: Iterable<number>,
+  maxSteps = 60 * 60 * 10,
+  stepMs = STEP_MS,
+  mode: FlappyMode = 'normal'
+): FlappyState {
+  const flapSteps = new Set(flaps);
+  let state = createFlappyState(seed, mode);
+  for (let i = 0; i < maxSteps && !state.gameOver; i++) {
+    state = step(state, { flap: flapSteps.has(i) }, stepMs);
+  }
+  return state;
+}
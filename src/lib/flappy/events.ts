@@ -0,0 +1,13 @@
+import type { EventOf } from '@/lib/emitter';
+
+/**
+ * What can happen during a Flappy step, recorded in `state.events` by the
+ * engine; `points` go on the score.
+ */
+export type FlappyEvents = {
+  flapped: { y: number };
+  pipePassed: { pipe: number; points: number };
+  playerDied: { cause: 'ground' | 'ceiling' | 'pipe'; y: number };
+};
+
+export type FlappyEvent = EventOf<FlappyEvents>;
@@ -0,0 +1,61 @@
+/**
+ * Flappy game modes: how wide the gaps are, how fast the pipes come and
+ * whether any of that changes during a run.
+ *
+ * Speeds are px per 60 Hz frame, like the rest of the engine.
+ */
+
+export type FlappyMode = 'easy' | 'normal' | 'hard' | 'endless' | 'moving' | 'daily';
+
+export type FlappyModeSettings = {
+  label: string;
+  description: string;
+  gapHeight: number;
+  pipeSpeed: number;
+  pipeIntervalMs: number;
+  /** Endless: every point narrows the gap and speeds the pipes up, until the limits. */
+  ramp?: { gapPerPoint: number; minGap: number; speedPerPoint: number; maxSpeed: number };
+  /** Pipes bob up and down by `amplitude` px. */
+  oscillation?: { amplitude: number; periodMs: number };
+  /** Everyone gets the same pipes on the same (UTC) day, see dailySeed(). */
+  dailySeed?: boolean;
+};
+
+const NORMAL = { gapHeight: 140, pipeSpeed: 1.5, pipeIntervalMs: 1500 };
+
+export const FLAPPY_MODES: Record<FlappyMode, FlappyModeSettings> = {
+  easy: { label: 'Easy', description: 'Wide gaps, slow pipes', gapHeight: 170, pipeSpeed: 1.3, pipeIntervalMs: 1700 },
+  normal: { label: 'Normal', description: 'The classic', ...NORMAL },
+  hard: { label: 'Hard', description: 'Narrow gaps, fast pipes', gapHeight: 115, pipeSpeed: 1.9, pipeIntervalMs: 1300 },
+  endless: {
+    label: 'Endless',
+    description: 'Gets harder with every pipe',
+    ...NORMAL,
+    ramp: { gapPerPoint: 1.5, minGap: 100, speedPerPoint: 0.03, maxSpeed: 2.6 },
+  },
+  moving: {
+    label: 'Moving',
+    description: 'The gaps bob up and down',
+    ...NORMAL,
+    oscillation: { amplitude: 40, periodMs: 2400 },
+  },
+  daily: { label: 'Daily', description: "Today's pipes, the same for everyone", ...NORMAL, dailySeed: true },
+};
+
+export const FLAPPY_MODE_IDS = Object.keys(FLAPPY_MODES) as FlappyMode[];
+
+export const isFlappyMode = (value: unknown): value is FlappyMode =>
+  typeof value === 'string' && Object.hasOwn(FLAPPY_MODES, value);
+
+/** Gap and pipe speed once the player has `score` points. */
+export function pipeSettings(mode: FlappyMode, score: number) {
+  const { gapHeight, pipeSpeed, ramp } = FLAPPY_MODES[mode];
+  if (!ramp) return { gapHeight, pipeSpeed };
+  return {
+    gapHeight: Math.max(gapHeight - ramp.gapPerPoint * score, ramp.minGap),
+    pipeSpeed: Math.min(pipeSpeed + ramp.speedPerPoint * score, ramp.maxSpeed),
+  };
+}
+
+/** Fastest the pipes ever move in a mode. */
+export const maxPipeSpeed = (mode: FlappyMode) => FLAPPY_MODES[mode].ramp?.maxSpeed ?? FLAPPY_MODES[mode].pipeSpeed;
@@ -0,0 +1,97 @@
+import { BIRD_RADIUS, BIRD_X, FlappyState, GROUND_Y, Pipe, PIPE_WIDTH } from './engine';
+import { drawBackdrop, drawGround } from './scenery';
+import { lerp } from '@/lib/loop';
+
+/** Images loaded from the public folder; each may still be loading. */
+export type FlappySprites = {
+  bird: HTMLImageElement;
+};
+
+const loadImage = (src: string) => {
+  const img = new Image();
+  img.src = src;
+  return img;
+};
+
+export const loadFlappySprites = (): FlappySprites => ({
+  bird: loadImage('/bird.svg'),
+});
+
+/** State for drawing `alpha` of the way from `prev` to `next`; only the bird, pipes and scenery are blended. */
+export const interpolateFlappy = (prev: FlappyState, next: FlappyState, alpha: number): FlappyState => ({
+  ...next,
+  birdY: lerp(prev.birdY, next.birdY, alpha),
+  distance: lerp(prev.distance, next.distance, alpha),
+  pipes: next.pipes.map((pipe) => {
+    const before = prev.pipes.find((p) => p.id === pipe.id);
+    return before ? { ...pipe, x: lerp(before.x, pipe.x, alpha) } : pipe;
+  }),
+});
+
+// Radians of tilt per unit of velocity, and the limits either way
+const TILT_PER_VELOCITY = 0.08;
+const MAX_TILT_UP = -0.5;
+const MAX_TILT_DOWN = 1.3;
+
+const birdTilt = (velocity: number) =>
+  Math.min(Math.max(velocity * TILT_PER_VELOCITY, MAX_TILT_UP), MAX_TILT_DOWN);
+
+const CAP_HEIGHT = 22;
+const CAP_OVERHANG = 4;
+const PIPE_OUTLINE = '#1d4d10';
+
+/** A pipe section shaded like a cylinder: lit on the left, in shadow on the right. */
+const pipeShade = (ctx: CanvasRenderingContext2D, x: number, width: number) => {
+  const shade = ctx.createLinearGradient(x, 0, x + width, 0);
+  shade.addColorStop(0, '#63c13a');
+  shade.addColorStop(0.3, '#9be26b');
+  shade.addColorStop(0.55, '#5cb531');
+  shade.addColorStop(1, '#2f7d1a');
+  return shade;
+};
+
+const drawPipeSection = (ctx: CanvasRenderingContext2D, x: number, y: number, width: number, height: number) => {
+  if (height <= 0) return;
+  ctx.fillStyle = pipeShade(ctx, x, width);
+  ctx.fillRect(x, y, width, height);
+  ctx.strokeStyle = PIPE_OUTLINE;
+  ctx.lineWidth = 2;
+  ctx.strokeRect(x + 1, y + 1, width - 2, height - 2);
+};
+
+/** Top and bottom pipe, each with a wider cap at the gap. */
+const drawPipe = (ctx: CanvasRenderingContext2D, pipe: Pipe) => {
+  const gapBottom = pipe.gapY + pipe.gapHeight;
+  const capX = pipe.x - CAP_OVERHANG;
+  const capWidth = PIPE_WIDTH + CAP_OVERHANG * 2;
+
+  drawPipeSection(ctx, pipe.x, 0, PIPE_WIDTH, pipe.gapY - CAP_HEIGHT);
+  drawPipeSection(ctx, capX, pipe.gapY - CAP_HEIGHT, capWidth, CAP_HEIGHT);
+  drawPipeSection(ctx, capX, gapBottom, capWidth, CAP_HEIGHT);
+  drawPipeSection(ctx, pipe.x, gapBottom + CAP_HEIGHT, PIPE_WIDTH, GROUND_Y - gapBottom - CAP_HEIGHT);
+};
+
+/** Draw one frame of `state`. Falls back to plain shapes until images have loaded. */
+export function renderFlappy(
+  ctx: CanvasRenderingContext2D,
+  state: FlappyState,
+  sprites: FlappySprites | null
+) {
+  drawBackdrop(ctx, state);
+  state.pipes.forEach((pipe) => drawPipe(ctx, pipe));
+  drawGround(ctx, state);
+
+  // Bird, nose up after a flap and tipping over as it falls
+  ctx.save();
+  ctx.translate(BIRD_X, state.birdY);
+  ctx.rotate(birdTilt(state.velocity));
+  if (sprites?.bird.complete) {
+    ctx.drawImage(sprites.bird, -BIRD_RADIUS, -BIRD_RADIUS, BIRD_RADIUS * 2, BIRD_RADIUS * 2);
+  } else {
+    ctx.fillStyle = '#FFD700';
+    ctx.beginPath();
+    ctx.arc(0, 0, BIRD_RADIUS, 0, Math.PI * 2);
+    ctx.fill();
+  }
+  ctx.restore();
+}
@@ -0,0 +1,14 @@
+import { STEP_MS } from '@/lib/loop';
+import type { ReplaySim } from '@/lib/replay';
+import { createFlappyState, FlappyState, step } from './engine';
+import { isFlappyMode } from './modes';
+
+/** Replay code for a flap, Flappy's only input. */
+export const FLAP_CODE = 'f';
+
+export const flappyReplaySim: ReplaySim<FlappyState> = {
+  create: (replay) => createFlappyState(replay.seed, isFlappyMode(replay.mode) ? replay.mode : 'normal'),
+  step: (state, code) => step(state, { flap: code === FLAP_CODE }, STEP_MS),
+  isOver: (state) => state.gameOver,
+  score: (state) => state.score,
+};
@@ -0,0 +1,187 @@
+import { FIELD_WIDTH, FlappyState, GROUND_HEIGHT, GROUND_Y } from './engine';
+
+/**
+ * Procedural Flappy scenery: a sky that goes through a day/night cycle as the
+ * score climbs, and parallax layers of stars, clouds and a city skyline in
+ * front of it, plus the scrolling ground strip. Everything is drawn from the
+ * state alone (`distance` and `score`), so replays look the same as the run.
+ */
+
+/** Points for one whole day/night cycle. */
+const DAY_CYCLE_POINTS = 30;
+
+/** How fast each layer scrolls, relative to the pipes. */
+const PARALLAX = { stars: 0.05, clouds: 0.2, city: 0.45, ground: 1 };
+
+type Rgb = [number, number, number];
+
+type Palette = {
+  skyTop: Rgb;
+  skyBottom: Rgb;
+  clouds: Rgb;
+  city: Rgb;
+  /** 0–1: how visible the stars and lit windows are. */
+  night: number;
+};
+
+const hex = (colour: string): Rgb => [1, 3, 5].map((i) => parseInt(colour.slice(i, i + 2), 16)) as Rgb;
+
+const DAY: Palette = {
+  skyTop: hex('#4aa8e0'),
+  skyBottom: hex('#bde6f5'),
+  clouds: hex('#ffffff'),
+  city: hex('#8fb9c9'),
+  night: 0,
+};
+const DUSK: Palette = {
+  skyTop: hex('#3b3a78'),
+  skyBottom: hex('#f59e6b'),
+  clouds: hex('#f6c4a8'),
+  city: hex('#5a4a6a'),
+  night: 0.3,
+};
+const NIGHT: Palette = {
+  skyTop: hex('#0b1030'),
+  skyBottom: hex('#26305e'),
+  clouds: hex('#3a4270'),
+  city: hex('#161c3a'),
+  night: 1,
+};
+const DAWN: Palette = {
+  skyTop: hex('#5a7fc0'),
+  skyBottom: hex('#f7c59f'),
+  clouds: hex('#fde2cf'),
+  city: hex('#6f7f9a'),
+  night: 0.3,
+};
+
+/** Where in the cycle (0–1) each palette is reached; colours blend in between. */
+const CYCLE: [number, Palette][] = [
+  [0, DAY],
+  [0.4, DAY],
+  [0.5, DUSK],
+  [0.6, NIGHT],
+  [0.85, NIGHT],
+  [0.95, DAWN],
+  [1, DAY],
+];
+
+const mixRgb = (a: Rgb, b: Rgb, t: number): Rgb => a.map((v, i) => Math.round(v + (b[i] - v) * t)) as Rgb;
+const rgb = ([r, g, b]: Rgb, alpha = 1) => `rgba(${r}, ${g}, ${b}, ${alpha})`;
+
+/** Sky colours for `score` points into the run. */
+export function dayPalette(score: number): Palette {
+  const phase = (score % DAY_CYCLE_POINTS) / DAY_CYCLE_POINTS;
+  const i = CYCLE.findIndex(([at]) => at > phase);
+  const [fromAt, from] = CYCLE[i - 1];
+  const [toAt, to] = CYCLE[i];
+  const t = (phase - fromAt) / (toAt - fromAt);
+  return {
+    skyTop: mixRgb(from.skyTop, to.skyTop, t),
+    skyBottom: mixRgb(from.skyBottom, to.skyBottom, t),
+    clouds: mixRgb(from.clouds, to.clouds, t),
+    city: mixRgb(from.city, to.city, t),
+    night: from.night + (to.night - from.night) * t,
+  };
+}
+
+/** A fixed pseudo-random number in [0, 1) for slot `i` of a layer – the scenery never changes between runs. */
+function noise(i: number, salt: number) {
+  let h = Math.imul(i ^ salt, 0x9e3779b1);
+  h ^= h >>> 15;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  return (h >>> 0) / 2 ** 32;
+}
+
+/** Call `draw` for each slot of a `slotWidth` wide layer scrolled by `offset` that is on screen. */
+function forEachSlot(offset: number, slotWidth: number, draw: (i: number, x: number) => void) {
+  const first = Math.floor(offset / slotWidth);
+  for (let i = first; i * slotWidth - offset < FIELD_WIDTH; i++) draw(i, i * slotWidth - offset);
+}
+
+const drawStars = (ctx: CanvasRenderingContext2D, offset: number, alpha: number) => {
+  if (alpha <= 0) return;
+  ctx.fillStyle = `rgba(255, 255, 255, ${alpha})`;
+  forEachSlot(offset, 40, (i, x) => {
+    const size = noise(i, 11) < 0.2 ? 2 : 1;
+    ctx.fillRect(x + noise(i, 12) * 40, noise(i, 13) * GROUND_Y * 0.6, size, size);
+  });
+};
+
+const drawClouds = (ctx: CanvasRenderingContext2D, offset: number, colour: Rgb) => {
+  ctx.fillStyle = rgb(colour, 0.85);
+  forEachSlot(offset, 140, (i, x) => {
+    if (noise(i, 21) < 0.3) return;
+    const cx = x + noise(i, 22) * 60 + 40;
+    const cy = 60 + noise(i, 23) * 180;
+    const r = 14 + noise(i, 24) * 10;
+    ctx.beginPath();
+    ctx.arc(cx, cy, r, 0, Math.PI * 2);
+    ctx.arc(cx + r, cy - r * 0.5, r * 1.2, 0, Math.PI * 2);
+    ctx.arc(cx + r * 2.2, cy, r * 0.9, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.fillRect(cx, cy, r * 2.2, r * 0.9);
+  });
+};
+
+const drawCity = (ctx: CanvasRenderingContext2D, offset: number, palette: Palette) => {
+  forEachSlot(offset, 36, (i, x) => {
+    const height = 50 + noise(i, 31) * 110;
+    const width = 26 + noise(i, 32) * 10;
+    const top = GROUND_Y - height;
+    ctx.fillStyle = rgb(palette.city);
+    ctx.fillRect(x, top, width, height);
+
+    // Lit windows come on at night
+    if (palette.night <= 0) return;
+    ctx.fillStyle = `rgba(255, 214, 91, ${palette.night * 0.8})`;
+    for (let row = 0; top + 8 + row * 12 < GROUND_Y - 10; row++) {
+      for (let col = 0; 5 + col * 9 < width - 6; col++) {
+        if (noise(i * 256 + row * 8 + col, 33) < 0.35) ctx.fillRect(x + 5 + col * 9, top + 8 + row * 12, 4, 5);
+      }
+    }
+  });
+};
+
+/** Sky, stars, clouds and skyline – everything behind the pipes. */
+export function drawBackdrop(ctx: CanvasRenderingContext2D, state: FlappyState) {
+  const palette = dayPalette(state.score);
+
+  const sky = ctx.createLinearGradient(0, 0, 0, GROUND_Y);
+  sky.addColorStop(0, rgb(palette.skyTop));
+  sky.addColorStop(1, rgb(palette.skyBottom));
+  ctx.fillStyle = sky;
+  ctx.fillRect(0, 0, FIELD_WIDTH, GROUND_Y);
+
+  drawStars(ctx, state.distance * PARALLAX.stars, palette.night);
+  drawClouds(ctx, state.distance * PARALLAX.clouds, palette.clouds);
+  drawCity(ctx, state.distance * PARALLAX.city, palette);
+}
+
+const GRASS_HEIGHT = 10;
+const STRIPE_WIDTH = 24;
+
+/** The ground strip, moving with the pipes; drawn over their feet. */
+export function drawGround(ctx: CanvasRenderingContext2D, state: FlappyState) {
+  ctx.fillStyle = '#ded895';
+  ctx.fillRect(0, GROUND_Y, FIELD_WIDTH, GROUND_HEIGHT);
+
+  // Slanted stripes along the grass edge are what make the movement visible
+  ctx.fillStyle = '#73bf2e';
+  ctx.fillRect(0, GROUND_Y, FIELD_WIDTH, GRASS_HEIGHT);
+  ctx.fillStyle = '#5ea324';
+  const offset = (state.distance * PARALLAX.ground) % STRIPE_WIDTH;
+  for (let x = -offset - STRIPE_WIDTH; x < FIELD_WIDTH; x += STRIPE_WIDTH) {
+    ctx.beginPath();
+    ctx.moveTo(x, GROUND_Y + GRASS_HEIGHT);
+    ctx.lineTo(x + STRIPE_WIDTH / 2, GROUND_Y + GRASS_HEIGHT);
+    ctx.lineTo(x + STRIPE_WIDTH, GROUND_Y);
+    ctx.lineTo(x + STRIPE_WIDTH / 2, GROUND_Y);
+    ctx.fill();
+  }
+  ctx.fillStyle = '#543847';
+  ctx.fillRect(0, GROUND_Y, FIELD_WIDTH, 2);
+  ctx.fillStyle = '#c9b96b';
+  ctx.fillRect(0, GROUND_Y + GRASS_HEIGHT, FIELD_WIDTH, 3);
+}
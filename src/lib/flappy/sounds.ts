@@ -0,0 +1,13 @@
+import { soundCues } from '@/lib/audio/engine';
+import type { Emitter } from '@/lib/emitter';
+import type { FlappyEvents } from './events';
+
+/** Cue a sound for each game event; returns the function that stops it. */
+export function connectFlappySounds(events: Emitter<FlappyEvents>) {
+  const offs = [
+    events.on('flapped', () => soundCues.emit('sound', 'flap')),
+    events.on('pipePassed', () => soundCues.emit('sound', 'score')),
+    events.on('playerDied', () => soundCues.emit('sound', 'crash')),
+  ];
+  return () => offs.forEach((off) => off());
+}
@@ -0,0 +1,25 @@
+import type { Emitter } from '@/lib/emitter';
+import { createRunTracker, RunTracker } from '@/lib/stats';
+import type { FlappyState } from './engine';
+import type { FlappyEvents } from './events';
+
+/**
+ * Count each game event towards the lifetime stats and achievements; returns
+ * the function that stops it. A run starts with its first flap and is
+ * recorded when the bird goes down.
+ */
+export function connectFlappyStats(events: Emitter<FlappyEvents>, getState: () => FlappyState | null) {
+  let run: RunTracker | null = null;
+  const tracker = () => (run ??= createRunTracker('flappy'));
+
+  const offs = [
+    events.on('flapped', () => tracker().count('flaps')),
+    events.on('pipePassed', () => tracker().count('pipes')),
+    events.on('playerDied', () => {
+      const state = getState();
+      tracker().finish(state?.score ?? 0, state?.time ?? 0);
+      run = null;
+    }),
+  ];
+  return () => offs.forEach((off) => off());
+}
@@ -0,0 +1,40 @@
+import type { ComponentType } from 'react';
+import FlappyGame from '@/components/FlappyGame';
+import PacmanGame from '@/components/PacmanGame';
+import { FLAPPY_ACTIONS, GameAction, PACMAN_ACTIONS } from '@/lib/input';
+
+/**
+ * Registry of playable games. The landing page lists these and each one is
+ * served at /games/<slug>; adding a game only takes an entry here.
+ */
+export type GameEntry = {
+  slug: string;
+  title: string;
+  description: string;
+  /** Image from the public folder shown on the landing page. */
+  thumbnail: string;
+  component: ComponentType;
+  /** Inputs the game responds to, listed in its controls settings. */
+  actions: readonly GameAction[];
+};
+
+export const GAMES: readonly GameEntry[] = [
+  {
+    slug: 'pacman',
+    title: 'Pac-Man',
+    description: 'Eat cherries, grab the apex power-up and turn the tables on the ghosts.',
+    thumbnail: '/Pacman.svg',
+    component: PacmanGame,
+    actions: PACMAN_ACTIONS,
+  },
+  {
+    slug: 'flappy',
+    title: 'Flappy Bird',
+    description: 'Flap through the gaps between the pipes and survive as long as you can.',
+    thumbnail: '/bird.svg',
+    component: FlappyGame,
+    actions: FLAPPY_ACTIONS,
+  },
+];
+
+export const findGame = (slug: string) => GAMES.find((g) => g.slug === slug);
@@ -0,0 +1,88 @@
+import { isRecord, StoredBlob, versionedStorage } from './storage';
+
+/**
+ * Local high-score tables, one top-N list per game, kept in localStorage.
+ *
+ * The stored blob carries a schema version (see ./storage). When the shape
+ * changes, bump SCHEMA_VERSION and add a migration for the older blobs;
+ * anything that doesn't check out is discarded rather than crashing the game.
+ */
+
+export const MAX_HIGH_SCORES = 10;
+
+const STORAGE_KEY = 'apex-game:highscores';
+const SCHEMA_VERSION = 1;
+
+export type HighScore = {
+  name: string;
+  score: number;
+  /** ISO timestamp of the run. */
+  date: string;
+  /** Game mode the score was set in, for games that have modes. */
+  mode?: string;
+};
+
+type HighScoreStore = {
+  /** Name last entered, prefilled on the next game-over. */
+  playerName: string;
+  games: Record<string, HighScore[]>;
+};
+
+const emptyStore = (): HighScoreStore => ({ playerName: '', games: {} });
+
+const isHighScore = (value: unknown): value is HighScore =>
+  isRecord(value) &&
+  typeof value.name === 'string' &&
+  typeof value.score === 'number' &&
+  Number.isFinite(value.score) &&
+  typeof value.date === 'string' &&
+  (value.mode === undefined || typeof value.mode === 'string');
+
+/** Trust a stored blob only as far as its shape checks out; bad entries are dropped. */
+const validate = (data: StoredBlob): HighScoreStore => {
+  const games: Record<string, HighScore[]> = {};
+  if (isRecord(data.games)) {
+    for (const [game, list] of Object.entries(data.games)) {
+      if (Array.isArray(list)) games[game] = list.filter(isHighScore);
+    }
+  }
+  return { playerName: typeof data.playerName === 'string' ? data.playerName : '', games };
+};
+
+const storage = versionedStorage(STORAGE_KEY, SCHEMA_VERSION, validate);
+
+const load = () => storage.load() ?? emptyStore();
+// If storage is full or disabled, scores just won't persist
+const save = (store: HighScoreStore) => storage.save(store);
+
+/** Best-first list for a game. */
+export const getHighScores = (game: string): HighScore[] => load().games[game] ?? [];
+
+export const getBestScore = (game: string) => getHighScores(game)[0]?.score ?? 0;
+
+export const getPlayerName = () => load().playerName;
+
+/** Whether `score` would make it onto the game's table. */
+export const qualifiesForHighScores = (game: string, score: number) => {
+  if (score <= 0) return false;
+  const list = getHighScores(game);
+  return list.length < MAX_HIGH_SCORES || score > list[list.length - 1].score;
+};
+
+/**
+ * Insert a score into the game's table and persist it.
+ * Returns the 0-based rank, or -1 when it didn't make the cut.
+ */
+export function addHighScore(game: string, name: string, score: number, mode?: string): number {
+  const store = load();
+  const entry: HighScore = { name: name.trim() || 'Anonymous', score, date: new Date().toISOString(), mode };
+  // Ties go below existing entries – first to reach a score keeps the spot
+  const list = [...(store.games[game] ?? []), entry]
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_HIGH_SCORES);
+
+  store.games[game] = list;
+  store.playerName = entry.name;
+  save(store);
+  return list.indexOf(entry);
+}
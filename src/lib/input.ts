@@ -0,0 +1,206 @@
+import { isRecord, StoredBlob, versionedStorage } from './storage';
+
+/**
+ * Player input shared by all games: physical keys and gamepad buttons are
+ * mapped to game actions, and the games only ever see actions.
+ *
+ * Key bindings can be changed by the player (see components/ControlsSettings)
+ * and are kept in localStorage, versioned like the high scores (see
+ * ./storage). Gamepads use the browser's "standard" layout and aren't
+ * rebindable. Games listen through the useGameInput hook.
+ *
+ * On touch screens the games read gestures instead (see usePointerGestures).
+ */
+
+export type MoveAction = 'up' | 'down' | 'left' | 'right';
+/** Moves of the second player in two-player games; on their own they move the only player. */
+export type PlayerTwoMoveAction = 'up2' | 'down2' | 'left2' | 'right2';
+export type GameAction = MoveAction | PlayerTwoMoveAction | 'flap' | 'pause';
+
+/** KeyboardEvent.code values bound to each action. */
+export type KeyBindings = Record<GameAction, string[]>;
+
+export const ACTION_LABELS: Record<GameAction, string> = {
+  up: 'Up',
+  down: 'Down',
+  left: 'Left',
+  right: 'Right',
+  up2: 'Player 2 up',
+  down2: 'Player 2 down',
+  left2: 'Player 2 left',
+  right2: 'Player 2 right',
+  flap: 'Flap',
+  pause: 'Pause',
+};
+
+export const PLAYER_TWO_MOVES: Record<MoveAction, PlayerTwoMoveAction> = {
+  up: 'up2',
+  down: 'down2',
+  left: 'left2',
+  right: 'right2',
+};
+
+/** Which player a move action belongs to (0 or 1) and where it goes, or null for other actions. */
+export function moveOf(action: GameAction): { player: number; direction: MoveAction } | null {
+  for (const [direction, second] of Object.entries(PLAYER_TWO_MOVES) as [MoveAction, PlayerTwoMoveAction][]) {
+    if (action === direction) return { player: 0, direction };
+    if (action === second) return { player: 1, direction };
+  }
+  return null;
+}
+
+/** The actions each game responds to. */
+export const PACMAN_ACTIONS: readonly GameAction[] = [
+  'up',
+  'down',
+  'left',
+  'right',
+  'up2',
+  'down2',
+  'left2',
+  'right2',
+  'pause',
+];
+export const FLAPPY_ACTIONS: readonly GameAction[] = ['flap', 'pause'];
+
+/** WASD for the first player and the arrows for the second, so two can share a keyboard. */
+export const DEFAULT_BINDINGS: KeyBindings = {
+  up: ['KeyW'],
+  down: ['KeyS'],
+  left: ['KeyA'],
+  right: ['KeyD'],
+  up2: ['ArrowUp'],
+  down2: ['ArrowDown'],
+  left2: ['ArrowLeft'],
+  right2: ['ArrowRight'],
+  flap: ['Space'],
+  pause: ['KeyP', 'Escape'],
+};
+
+/* ---------- Stored bindings ----------- */
+
+const STORAGE_KEY = 'apex-game:bindings';
+const SCHEMA_VERSION = 2;
+/** Fired on window when the bindings are saved, so running games pick them up. */
+export const BINDINGS_CHANGE_EVENT = 'apex-game:bindings-changed';
+
+const copyBindings = (bindings: KeyBindings): KeyBindings =>
+  Object.fromEntries(Object.entries(bindings).map(([a, keys]) => [a, [...keys]])) as KeyBindings;
+
+/** Version 1 moved with the arrows and WASD alike; the arrows are player 2's now. */
+const handArrowsToPlayerTwo = (data: StoredBlob): StoredBlob => {
+  if (!isRecord(data.bindings)) return data;
+  const bindings = { ...data.bindings };
+  for (const [move, second] of Object.entries(PLAYER_TWO_MOVES) as [MoveAction, PlayerTwoMoveAction][]) {
+    const keys = bindings[move];
+    if (Array.isArray(keys)) bindings[move] = keys.filter((k) => !DEFAULT_BINDINGS[second].includes(k));
+  }
+  return { ...data, bindings };
+};
+
+/** Saved bindings; actions with anything but a list of key codes fall back to the defaults. */
+const storage = versionedStorage(
+  STORAGE_KEY,
+  SCHEMA_VERSION,
+  (data) => {
+    if (!isRecord(data.bindings)) return null;
+    const saved: Partial<KeyBindings> = {};
+    for (const action of Object.keys(DEFAULT_BINDINGS) as GameAction[]) {
+      const keys = data.bindings[action];
+      if (Array.isArray(keys) && keys.every((k) => typeof k === 'string')) saved[action] = keys;
+    }
+    return { bindings: saved };
+  },
+  { 1: handArrowsToPlayerTwo }
+);
+
+/** Current bindings: the player's own on top of the defaults. */
+export function getBindings(): KeyBindings {
+  return { ...copyBindings(DEFAULT_BINDINGS), ...storage.load()?.bindings };
+}
+
+/** Save the bindings; if storage is full or disabled they last until reload. */
+export function saveBindings(bindings: KeyBindings) {
+  storage.save({ bindings });
+  window.dispatchEvent(new CustomEvent(BINDINGS_CHANGE_EVENT));
+}
+
+/**
+ * Bind `code` to `action` as its only key. The key is taken away from any
+ * other action in `group` (the actions of one game), so it never does two things.
+ */
+export function rebind(
+  bindings: KeyBindings,
+  action: GameAction,
+  code: string,
+  group: readonly GameAction[]
+): KeyBindings {
+  const next = copyBindings(bindings);
+  for (const other of group) next[other] = next[other].filter((k) => k !== code);
+  next[action] = [code];
+  return next;
+}
+
+/** Readable name for a KeyboardEvent.code, e.g. "KeyW" → "W". */
+export const keyLabel = (code: string) =>
+  code
+    .replace(/^Key/, '')
+    .replace(/^Digit/, '')
+    .replace(/^Arrow(.*)$/, '$1 arrow');
+
+/** The action (out of `actions`) a key is bound to, if any. */
+export const actionForKey = (bindings: KeyBindings, code: string, actions: readonly GameAction[]) =>
+  actions.find((a) => bindings[a].includes(code)) ?? null;
+
+/* ---------- Gamepads ----------- */
+
+/** Buttons of the standard gamepad layout. */
+const GAMEPAD_BUTTONS: readonly [number, GameAction][] = [
+  [12, 'up'],
+  [13, 'down'],
+  [14, 'left'],
+  [15, 'right'],
+  [0, 'flap'], // A / cross
+  [9, 'pause'], // Start / options
+];
+
+/** Left-stick travel (0..1) ignored as drift. */
+export const STICK_DEADZONE = 0.5;
+
+/** Direction the left stick points in, if it's pushed past the deadzone. */
+export function stickDirection(x: number, y: number, deadzone = STICK_DEADZONE): MoveAction | null {
+  if (Math.max(Math.abs(x), Math.abs(y)) < deadzone) return null;
+  if (Math.abs(x) > Math.abs(y)) return x < 0 ? 'left' : 'right';
+  return y < 0 ? 'up' : 'down';
+}
+
+/**
+ * Actions held on all connected gamepads right now. The first pad moves
+ * player 1 and any other pad player 2; their other buttons do the same on every pad.
+ */
+export function readGamepads(): Set<GameAction> {
+  const held = new Set<GameAction>();
+  const pads = typeof navigator !== 'undefined' && navigator.getGamepads ? navigator.getGamepads() : [];
+  let padNumber = 0;
+  for (const pad of pads) {
+    if (!pad) continue;
+    const move = (direction: MoveAction) => (padNumber === 0 ? direction : PLAYER_TWO_MOVES[direction]);
+    for (const [index, action] of GAMEPAD_BUTTONS) {
+      if (!pad.buttons[index]?.pressed) continue;
+      const direction = moveOf(action)?.direction;
+      held.add(direction ? move(direction) : action);
+    }
+    const stick = stickDirection(pad.axes[0] ?? 0, pad.axes[1] ?? 0);
+    if (stick) held.add(move(stick));
+    padNumber += 1;
+  }
+  return held;
+}
+
+/* ---------- Pointer gestures ----------- */
+
+/** How far (px) a finger has to travel before it counts as a swipe rather than a tap. */
+export const SWIPE_MIN_PX = 24;
+
+/** Direction of a drag by (dx, dy) screen pixels, once it's long enough to be a swipe. */
+export const swipeDirection = (dx: number, dy: number) => stickDirection(dx, dy, SWIPE_MIN_PX);
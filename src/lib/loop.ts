@@ -0,0 +1,60 @@
+/**
+ * Fixed-timestep game loop shared by all games.
+ *
+ * Physics always advance in steps of `stepMs`, no matter how often the browser
+ * paints: a 144 Hz display runs fewer steps per paint, a throttled tab runs
+ * several to catch up. Whatever time is left over in the accumulator is passed
+ * to `render` as `alpha` (0..1) so it can interpolate between the previous and
+ * current state instead of stuttering.
+ */
+
+/** The reference step: one 60 Hz frame, which all engine speeds are tuned for. */
+export const STEP_MS = 1000 / 60;
+
+export type FixedStepLoopOptions = {
+  /** Advance the simulation by exactly `dtMs`. */
+  update: (dtMs: number) => void;
+  /** Draw; `alpha` is how far we are between the last two steps. */
+  render: (alpha: number) => void;
+  stepMs?: number;
+  /** Upper bound of time simulated per paint, so a long stall can't trigger thousands of steps. */
+  maxFrameMs?: number;
+  /** Injected clock, defaults to performance.now(). */
+  now?: () => number;
+};
+
+/** Start the loop on requestAnimationFrame. Returns a function that stops it. */
+export function startFixedStepLoop({
+  update,
+  render,
+  stepMs = STEP_MS,
+  maxFrameMs = 250,
+  now = () => performance.now(),
+}: FixedStepLoopOptions) {
+  let last = now();
+  let accumulator = 0;
+  let handle: number | null = null;
+
+  const frame = () => {
+    const t = now();
+    accumulator += Math.min(t - last, maxFrameMs);
+    last = t;
+
+    while (accumulator >= stepMs) {
+      update(stepMs);
+      accumulator -= stepMs;
+    }
+    render(accumulator / stepMs);
+
+    handle = requestAnimationFrame(frame);
+  };
+
+  frame();
+
+  return () => {
+    if (handle !== null) cancelAnimationFrame(handle);
+  };
+}
+
+/** Linear interpolation helper for renderers. */
+export const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
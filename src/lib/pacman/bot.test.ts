@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { STEP_MS } from '@/lib/loop';
+import { pacmanBotDirection } from './bot';
+import { createPacmanState, PacmanMode, PacmanState, pathfinderFor, step } from './engine';
+import { DIRECTION_VECTORS, openDirections, tileToPoint } from './maze';
+import { cellAt } from './pathfinding';
+
+/** Steps between Pac-Man and the first ghost, the way round the walls. */
+const stepsToGhost = (state: PacmanState) => {
+  const pathfinder = pathfinderFor(state);
+  return pathfinder.distance(cellAt(pathfinder.grid, state.players[0]), cellAt(pathfinder.grid, state.ghosts[0]));
+};
+
+/** Play `steps` steps with the bot at the controls. */
+const playBot = (state: PacmanState, steps: number) => {
+  for (let i = 0; i < steps; i++) state = step(state, { direction: pacmanBotDirection(state) }, STEP_MS);
+  return state;
+};
+
+/** A hunt with only player 2's ghost, standing still right next to Pac-Man. */
+function cornered(mode: PacmanMode) {
+  const state = createPacmanState(11, { mode, rules: 'hunt' });
+  const [pacman] = state.players;
+  const next = state.maze
+    ? (() => {
+        const { pacmanSpawn } = state.maze;
+        const { dc, dr } = DIRECTION_VECTORS[openDirections(state.maze, pacmanSpawn)[0]];
+        return tileToPoint({ col: pacmanSpawn.col + dc, row: pacmanSpawn.row + dr });
+      })()
+    : { x: pacman.x + 20, y: pacman.y };
+  state.ghosts = [{ ...state.ghosts[0], ...next, dx: 0, dy: 0, vulnerableUntil: 0, releaseAt: 0 }];
+  return state;
+}
+
+describe.each<PacmanMode>(['classic', 'maze'])('Pac-Man bot in %s mode', (mode) => {
+  it('goes after food when no ghost is near', () => {
+    let state = createPacmanState(11, { mode, rules: 'hunt' });
+    state.ghosts = [];
+    state = playBot(state, 600);
+    expect(state.score).toBeGreaterThan(0);
+  });
+
+  it('runs from a ghost that gets close', () => {
+    const state = cornered(mode);
+    expect(pacmanBotDirection(state)).not.toBeNull();
+
+    const later = playBot(state, 10);
+    expect(later.gameOver).toBe(false);
+    expect(stepsToGhost(later)).toBeGreaterThan(stepsToGhost(state));
+  });
+
+  it('plays a whole hunt against the hunter and the AI ghosts', () => {
+    const start = createPacmanState(21, { mode, rules: 'hunt' });
+    expect(start.ghosts.length).toBeGreaterThan(1);
+
+    const end = playBot(start, 300);
+    const [from, to] = [start.players[0], end.players[0]];
+    expect(Math.hypot(to.x - from.x, to.y - from.y)).toBeGreaterThan(0);
+  });
+});
+
+describe('Pac-Man bot', () => {
+  it('stays put when a ghost is close and there is nowhere to run', () => {
+    const state = cornered('maze');
+    const maze = state.maze!;
+    // Wall in Pac-Man's tile: a fresh maze object, so it gets its own pathfinder
+    const spawn = maze.pacmanSpawn.row * maze.cols + maze.pacmanSpawn.col;
+    state.maze = { ...maze, walls: maze.walls.map((_, i) => i !== spawn) };
+
+    expect(pacmanBotDirection(state)).toBeNull();
+    expect(() => step(state, { direction: null }, STEP_MS)).not.toThrow();
+  });
+});
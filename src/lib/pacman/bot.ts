@@ -0,0 +1,49 @@
+import { Direction, Ghost, isGhostVulnerable, pathfinderFor, PacmanState, Point } from './engine';
+import { DIRECTION_VECTORS, DIRECTIONS, Tile, tileToPoint } from './maze';
+import { cellAt, isOpen } from './pathfinding';
+
+/**
+ * A computer Pac-Man, for hunts with nobody to play it. It looks at the state
+ * the way a player looks at the screen and answers with a direction, which
+ * goes into step() like any other input: run from a ghost that gets close,
+ * otherwise head for the nearest thing worth eating.
+ */
+
+/** Ghosts closer than this (px, the way round the walls) are run from. */
+const DANGER_PX = 100;
+
+const isThreat = (s: PacmanState, g: Ghost) => !g.eaten && !isGhostVulnerable(s, g) && s.time >= g.releaseAt;
+
+/** Direction the bot wants Pac-Man (player 1) to go this step, or null to carry on. */
+export function pacmanBotDirection(s: PacmanState): Direction | null {
+  const [pacman] = s.players;
+  const pathfinder = pathfinderFor(s);
+  const { grid } = pathfinder;
+  const from = cellAt(grid, pacman);
+  const beside = (d: Direction): Tile => ({
+    col: from.col + DIRECTION_VECTORS[d].dc,
+    row: from.row + DIRECTION_VECTORS[d].dr,
+  });
+
+  const threats = s.ghosts.filter((g) => isThreat(s, g)).map((g) => cellAt(grid, g));
+  const stepsToThreat = (cell: Tile) => Math.min(...threats.map((t) => pathfinder.distance(cell, t)));
+  if (stepsToThreat(from) * grid.cellSize < DANGER_PX) {
+    // Whichever way keeps the nearest ghost furthest off
+    return DIRECTIONS.filter((d) => isOpen(grid, beside(d))).reduce<Direction | null>(
+      (best, d) => (best === null || stepsToThreat(beside(d)) > stepsToThreat(beside(best)) ? d : best),
+      null
+    );
+  }
+
+  const food: Point[] = s.maze
+    ? [...s.pellets, ...s.powerPellets].map(tileToPoint)
+    : [...s.cherries, ...(s.apex ? [s.apex] : [])];
+  const prey = s.ghosts.filter((g) => !g.eaten && isGhostVulnerable(s, g));
+  const targets = [...prey, ...food];
+  if (!targets.length) return null;
+
+  // Distances are symmetric, so one search out from Pac-Man measures every target
+  const stepsFrom = (p: Point) => pathfinder.distance(cellAt(grid, p), from);
+  const target = targets.reduce((best, t) => (stepsFrom(t) < stepsFrom(best) ? t : best));
+  return pathfinder.nextStep(from, cellAt(grid, target));
+}
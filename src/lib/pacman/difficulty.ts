@@ -0,0 +1,49 @@
+/**
+ * Pac-Man progression: what changes from one level to the next, and the
+ * lives the player gets along the way.
+ *
+ * Maze levels end when the pellets are cleared; the classic field has no end,
+ * so there a level lasts CLASSIC_LEVEL_POINTS points. Levels past the end of
+ * the table keep the last row.
+ */
+
+export type Difficulty = {
+  /** Multiplier on the base ghost speed (GHOST_SPEED, or the maze level's own speed). */
+  ghostSpeedFactor: number;
+  ghostCount: number;
+  /** How long ghosts stay frightened after an apex/power pellet. */
+  frightenedMs: number;
+  /** Classic: how long until the apex comes back after being eaten. */
+  apexRespawnMs: number;
+};
+
+const DIFFICULTY_TABLE: readonly Difficulty[] = [
+  { ghostSpeedFactor: 1, ghostCount: 3, frightenedMs: 10000, apexRespawnMs: 15000 },
+  { ghostSpeedFactor: 1.05, ghostCount: 3, frightenedMs: 9000, apexRespawnMs: 16000 },
+  { ghostSpeedFactor: 1.1, ghostCount: 4, frightenedMs: 8000, apexRespawnMs: 17000 },
+  { ghostSpeedFactor: 1.15, ghostCount: 4, frightenedMs: 7000, apexRespawnMs: 18000 },
+  { ghostSpeedFactor: 1.2, ghostCount: 4, frightenedMs: 6000, apexRespawnMs: 20000 },
+  { ghostSpeedFactor: 1.25, ghostCount: 4, frightenedMs: 5000, apexRespawnMs: 22000 },
+];
+
+/** Settings for a (1-based) level. */
+export const difficultyFor = (level: number): Difficulty =>
+  DIFFICULTY_TABLE[Math.min(Math.max(level, 1), DIFFICULTY_TABLE.length) - 1];
+
+/** Most ghosts any level puts on the field. */
+export const MAX_GHOSTS = Math.max(...DIFFICULTY_TABLE.map((d) => d.ghostCount));
+
+/** Classic: the shortest wait for the apex to come back in any level. */
+export const MIN_APEX_RESPAWN_MS = Math.min(...DIFFICULTY_TABLE.map((d) => d.apexRespawnMs));
+
+export const CLASSIC_LEVEL_POINTS = 30;
+
+/* ---------- Lives ----------- */
+
+export const START_LIVES = 3;
+export const MAX_LIVES = 5;
+/** After losing a life Pac-Man can't be caught for this long. */
+export const RESPAWN_INVULNERABLE_MS = 3000;
+
+/** Scores that earn an extra life, one each. */
+export const EXTRA_LIFE_SCORES: readonly number[] = [50, 150, 300, 500, 750, 1000];
@@ -0,0 +1,51 @@
+import type { Emitter } from '@/lib/emitter';
+import { burst, Effects, popup, shake } from '@/lib/effects';
+import { APEX_SIZE, CHERRY_SIZE, ghostSize, pacSize, PacmanState, Point } from './engine';
+import type { PacmanEvents } from './events';
+import { TILE_SIZE } from './maze';
+
+const centre = (at: Point, size: number) => ({ x: at.x + size / 2, y: at.y + size / 2 });
+
+/**
+ * Bursts, score popups and screen shake for each game event; returns the
+ * function that stops them. `getState` gives the state the event came from,
+ * for actor sizes.
+ */
+export function connectPacmanEffects(
+  events: Emitter<PacmanEvents>,
+  fx: Effects,
+  getState: () => PacmanState | null
+) {
+  const offs = [
+    events.on('cherryEaten', ({ at, points }) => {
+      const c = centre(at, CHERRY_SIZE);
+      burst(fx, c, { colours: ['#ff001b', '#7bd23f'], count: 10 });
+      popup(fx, c, `+${points}`, '#ffd65b');
+    }),
+    events.on('pelletEaten', ({ tile, power }) => {
+      if (!power) return;
+      const c = centre({ x: tile.col * TILE_SIZE, y: tile.row * TILE_SIZE }, TILE_SIZE);
+      burst(fx, c, { colours: ['#FFD700', '#fff'], count: 20, speed: 160 });
+    }),
+    events.on('apexCollected', ({ at }) => {
+      burst(fx, centre(at, APEX_SIZE), { colours: ['#FFD700', '#fff'], count: 24, speed: 180 });
+    }),
+    events.on('ghostEaten', ({ at, points }) => {
+      const state = getState();
+      const c = centre(at, state ? ghostSize(state) : TILE_SIZE);
+      burst(fx, c, { colours: ['#fff', '#1f3fff'], count: 20, speed: 150 });
+      popup(fx, c, `+${points}`, '#00ffff');
+    }),
+    events.on('playerDied', ({ at }) => {
+      const state = getState();
+      burst(fx, centre(at, state ? pacSize(state) : TILE_SIZE), {
+        colours: ['#ffd65b', '#ff9f1c'],
+        count: 32,
+        speed: 200,
+        life: 900,
+      });
+      shake(fx, 8, 400);
+    }),
+  ];
+  return () => offs.forEach((off) => off());
+}
@@ -0,0 +1,161 @@
+import { describe, expect, it } from 'vitest';
+import { STEP_MS } from '@/lib/loop';
+import { START_LIVES } from './difficulty';
+import {
+  createPacmanState,
+  Direction,
+  FIELD_HEIGHT,
+  FIELD_WIDTH,
+  HUNT_MS,
+  huntWinner,
+  leadingPlayer,
+  PacmanMode,
+  PacmanState,
+  step,
+} from './engine';
+
+const TURNS: readonly Direction[] = ['left', 'up', 'right', 'down'];
+
+/** Play `steps` steps, turning every half second. */
+function play(seed: number, mode: PacmanMode, steps: number) {
+  let state = createPacmanState(seed, { mode });
+  for (let i = 0; i < steps; i++) {
+    const direction = i % 30 === 0 ? TURNS[(i / 30) % TURNS.length] : null;
+    state = step(state, { direction }, STEP_MS);
+  }
+  return state;
+}
+
+describe.each<PacmanMode>(['classic', 'maze'])('Pac-Man step() in %s mode', (mode) => {
+  it('plays the same round for the same seed and inputs', () => {
+    expect(play(42, mode, 1200)).toEqual(play(42, mode, 1200));
+  });
+
+  it('leaves the previous state untouched', () => {
+    const before = createPacmanState(7, { mode });
+    const snapshot = structuredClone(before);
+    step(before, { direction: 'left' }, STEP_MS);
+    expect(before).toEqual(snapshot);
+  });
+
+  it('runs on simulated time only', () => {
+    const state = play(3, mode, 60);
+    expect(state.time).toBeCloseTo(60 * STEP_MS);
+  });
+});
+
+describe('Pac-Man classic rounds', () => {
+  it('differ between seeds', () => {
+    const a = play(1, 'classic', 600);
+    const b = play(2, 'classic', 600);
+    expect([a.ghosts, a.cherries]).not.toEqual([b.ghosts, b.cherries]);
+  });
+
+  it('give Pac-Man a head start over ghosts that spawn on top of it', () => {
+    for (let seed = 1; seed <= 200; seed++) {
+      let state: PacmanState = createPacmanState(seed);
+      for (let i = 0; i < 30; i++) state = step(state, {}, STEP_MS);
+      expect(state.lives).toBe(START_LIVES);
+    }
+  });
+});
+
+describe('Pac-Man with two players', () => {
+  /** A classic round with its ghosts out of the way and no catch-up grace. */
+  const twoPlayerRound = (rules: 'coop' | 'versus') => {
+    const state = createPacmanState(5, { rules });
+    state.ghosts = [];
+    state.players.forEach((p) => (p.invulnerableUntil = 0));
+    return state;
+  };
+
+  /** Put a ghost on top of player `i` and step once. */
+  const catchPlayer = (state: PacmanState, i: number) => {
+    const ghost = { ...createPacmanState(5).ghosts[0], x: state.players[i].x, y: state.players[i].y };
+    return step({ ...state, ghosts: [ghost] }, {}, STEP_MS);
+  };
+
+  it('moves each Pac-Man by its own input', () => {
+    const before = twoPlayerRound('coop');
+    const after = step(before, { direction: 'left', direction2: 'right' }, STEP_MS);
+    expect(after.players[0].x).toBeLessThan(before.players[0].x);
+    expect(after.players[1].x).toBeGreaterThan(before.players[1].x);
+  });
+
+  it('credits a cherry to the player who ate it and to the team', () => {
+    const state = twoPlayerRound('versus');
+    state.cherries = [{ x: state.players[1].x, y: state.players[1].y }];
+    const next = step(state, {}, STEP_MS);
+    expect(next.players.map((p) => p.score)).toEqual([0, 1]);
+    expect(next.score).toBe(1);
+    expect(next.events).toContainEqual(expect.objectContaining({ type: 'cherryEaten', player: 1 }));
+    expect(leadingPlayer(next)).toBe(1);
+  });
+
+  it('shares the lives in co-op', () => {
+    const next = catchPlayer(twoPlayerRound('coop'), 1);
+    expect(next.lives).toBe(START_LIVES - 1);
+    expect(next.players.map((p) => p.lives)).toEqual([START_LIVES, START_LIVES]);
+  });
+
+  it('keeps versus going until both players are out', () => {
+    let state = twoPlayerRound('versus');
+    state.players[0].lives = 1;
+    state = catchPlayer(state, 0);
+    expect(state.players[0].lives).toBe(0);
+    expect(state.lives).toBe(START_LIVES);
+    expect(state.gameOver).toBe(false);
+
+    state.players[1].lives = 1;
+    state.players[1].invulnerableUntil = 0;
+    expect(catchPlayer(state, 1).gameOver).toBe(true);
+  });
+
+  it('calls a tie a draw', () => {
+    expect(leadingPlayer(twoPlayerRound('versus'))).toBeNull();
+  });
+});
+
+describe('Pac-Man hunts', () => {
+  /** A classic hunt with player 2's ghost alone on the field, clear of Pac-Man and the barriers. */
+  const huntRound = () => {
+    const state = createPacmanState(9, { rules: 'hunt' });
+    state.ghosts = [{ ...state.ghosts[0], x: FIELD_WIDTH / 2, y: FIELD_HEIGHT - 120 }];
+    state.players[0].invulnerableUntil = 0;
+    return state;
+  };
+  const onPacman = (state: PacmanState) => ({ ...state.ghosts[0], x: state.players[0].x, y: state.players[0].y });
+
+  it('moves the hunter ghost by player 2\'s input', () => {
+    const before = huntRound();
+    expect(before.lives).toBe(1);
+    const after = step(before, { ghostDirection: 'left' }, STEP_MS);
+    expect(after.ghosts[0].x).toBeLessThan(before.ghosts[0].x);
+    expect(after.ghosts[0].y).toBe(before.ghosts[0].y);
+  });
+
+  it('ends on a catch, in the ghosts\' favour', () => {
+    const state = huntRound();
+    const next = step({ ...state, ghosts: [onPacman(state)] }, {}, STEP_MS);
+    expect(next.gameOver).toBe(true);
+    expect(next.ghostScore).toBeGreaterThan(0);
+    expect(huntWinner(next)).toBe(1);
+  });
+
+  it('lets Pac-Man eat a frightened hunter', () => {
+    const state = huntRound();
+    const next = step({ ...state, ghosts: [{ ...onPacman(state), vulnerableUntil: 1e9 }] }, {}, STEP_MS);
+    expect(next.ghosts[0].eaten).toBe(true);
+    expect(next.gameOver).toBe(false);
+  });
+
+  it('ends at the time limit, in Pac-Man\'s favour', () => {
+    const state = { ...huntRound(), time: HUNT_MS - STEP_MS / 2 };
+    const next = step(state, {}, STEP_MS);
+    expect(next.gameOver).toBe(true);
+    expect(next.events).toContainEqual(expect.objectContaining({ type: 'timeUp' }));
+    expect(next.players[0].score).toBeGreaterThan(state.players[0].score);
+    expect(next.ghostScore).toBe(0);
+    expect(huntWinner(next)).toBe(0);
+  });
+});
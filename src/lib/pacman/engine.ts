@@ -0,0 +1,863 @@
+import { STEP_MS } from '@/lib/loop';
+import { createRng, Rng } from '@/lib/random';
+import {
+  CLASSIC_LEVEL_POINTS,
+  difficultyFor,
+  EXTRA_LIFE_SCORES,
+  MAX_LIVES,
+  RESPAWN_INVULNERABLE_MS,
+  START_LIVES,
+} from './difficulty';
+import type { PacmanEvent } from './events';
+import { chooseMazeDirection, GhostPersonality, GhostPhase, ghostPhase, ghostTarget, PERSONALITIES } from './ghostAI';
+import { BUNDLED_LEVELS, PacmanLevel } from './levels';
+import {
+  cellAt,
+  cellToPoint,
+  createPathfinder,
+  navGridFromBarriers,
+  navGridFromMaze,
+  Pathfinder,
+} from './pathfinding';
+import {
+  canMove,
+  DIRECTION_VECTORS,
+  FIELD_HEIGHT,
+  FIELD_WIDTH,
+  Maze,
+  moveOnGrid,
+  opposite,
+  openDirections,
+  sameTile,
+  Tile,
+  TILE_SIZE,
+  tileAt,
+  tileToPoint,
+} from './maze';
+
+/**
+ * Headless Pac-Man simulation.
+ *
+ * Everything that decides what happens in a round – movement, barrier
+ * collisions, ghost steering, cherry/apex pickups, ghost-eating, lives and
+ * levels – is handled here, free of canvas and React. `step()` takes the previous state and
+ * returns a new one; randomness comes from the seeded generator stored in the
+ * state and timers run on the simulated `time`, never on Date.now().
+ *
+ * A round has one Pac-Man, or two for local two-player games; in a hunt a
+ * second player steers one of the ghosts instead (see PacmanRules).
+ */
+
+/* ---------- Field & actor constants ----------- */
+// The field size lives with the maze grid, so the ghost AI can use it too
+export { FIELD_HEIGHT, FIELD_WIDTH };
+
+// Actor sizes (in px)
+export const PAC_SIZE = 34; // drawn at 34×34 so that the 30-ish sprite fits neatly
+export const GHOST_SIZE = 34;
+export const CHERRY_SIZE = 26;
+export const APEX_SIZE = 36;
+
+// Speeds (px per 60 Hz frame)
+export const PAC_SPEED = 3.2;
+export const GHOST_SPEED = 2.0;
+export const EYES_SPEED = 6; // eaten ghosts hurry home
+const FRIGHTENED_SPEED_FACTOR = 0.6;
+const NAV_CELL = 10; // px between classic navigation grid cells
+
+export const NUM_CHERRIES = 5;
+
+// Timers (ms of simulated time); per-level ones are in ./difficulty
+export const EATEN_MS = 2000; // an eaten ghost's wait in the house once its eyes are back
+const RELEASE_STAGGER_MS = 3000; // ghosts leave the house one after another
+
+// Hunt rounds
+export const HUNTER_GHOST = 0; // the ghost player 2 steers
+export const HUNT_MS = 90_000; // Pac-Man wins by holding out this long
+const CATCH_POINTS = 50; // the ghosts' side, plus a point per second left
+const ESCAPE_POINTS = 50; // Pac-Man's side, on top of what it ate
+
+/** Duration of one reference frame – speeds above are expressed per frame. */
+const FRAME_MS = STEP_MS;
+
+/* ---------- Types ----------- */
+export type Direction = 'up' | 'down' | 'left' | 'right';
+
+/** `classic`: freeform field with random cherries. `maze`: tile maze with pellets. */
+export type PacmanMode = 'classic' | 'maze';
+
+/**
+ * `solo`: one Pac-Man. `coop`: two Pac-Men sharing the lives, playing for a
+ * combined score. `versus`: two Pac-Men with lives of their own, racing each
+ * other for the points; no extra lives. `hunt`: one Pac-Man with a single
+ * life against the ghosts, one of which (HUNTER_GHOST) player 2 steers; a
+ * catch or HUNT_MS ends the round.
+ */
+export type PacmanRules = 'solo' | 'coop' | 'versus' | 'hunt';
+
+export type Point = { x: number; y: number };
+export type Rect = { x: number; y: number; w: number; h: number };
+
+export type PacmanActor = Point & { dx: number; dy: number };
+
+export type PacmanPlayer = PacmanActor & {
+  /** Maze: turn requested but not yet possible; taken at the next tile where it fits. */
+  bufferedDirection: Direction | null;
+  invulnerableUntil: number; // sim time (ms) until which ghosts can't catch this Pac-Man
+  /** Points this player scored; `state.score` adds up every player's. */
+  score: number;
+  /** Versus: this player's own lives, out of the round at 0. Other rules share `state.lives`. */
+  lives: number;
+};
+
+export type Ghost = {
+  x: number;
+  y: number;
+  dx: number;
+  dy: number;
+  personality: GhostPersonality;
+  vulnerableUntil: number; // sim time (ms) until which ghost is frightened
+  eaten: boolean; // only the eyes are left, heading back to the ghost house
+  releaseAt: number; // sim time (ms) until which ghost waits in the house
+};
+
+export type PacmanState = {
+  seed: number;
+  rngState: number; // resumable generator state, see createRng()
+  time: number; // simulated ms since the round started
+  mode: PacmanMode;
+  rules: PacmanRules;
+  pacmanSpeed: number; // px per 60 Hz frame
+  ghostSpeed: number;
+  /** One Pac-Man, or two in two-player rounds; player 1 first. */
+  players: PacmanPlayer[];
+  ghosts: Ghost[];
+  score: number; // every player's points together
+  /** Hunt: the ghosts' side's points. */
+  ghostScore: number;
+  /** Hunt: turn player 2 asked of their ghost, taken where it fits (maze) or straight away. */
+  hunterTurn: Direction | null;
+  gameOver: boolean;
+  lives: number; // shared by the players, except in versus
+  extraLivesAwarded: number; // how many of EXTRA_LIFE_SCORES have been reached
+  levelStartedAt: number; // sim time the scatter/chase schedule counts from
+  phase: GhostPhase;
+
+  // Classic mode
+  cherries: Point[];
+  apex: Point | null;
+  apexRespawnAt: number;
+
+  // Maze mode
+  levels: readonly PacmanLevel[];
+  maze: Maze | null;
+  pellets: Tile[];
+  powerPellets: Tile[];
+  level: number; // 1-based, both modes; maze levels repeat once the list runs out
+
+  /** What happened during the last step, see ./events. */
+  events: PacmanEvent[];
+};
+
+export type PacmanInput = {
+  /** Direction requested since the previous step, if any. */
+  direction?: Direction | null;
+  /** The same for player 2 in two-player rounds. */
+  direction2?: Direction | null;
+  /** Hunt: where player 2 wants their ghost to go. */
+  ghostDirection?: Direction | null;
+};
+
+export type PacmanOptions = {
+  mode?: PacmanMode;
+  rules?: PacmanRules;
+  /** Maze mode levels, played in order. Defaults to the bundled set. */
+  levels?: readonly PacmanLevel[];
+};
+
+/* ---------- Static barriers (walls/obstacles) ----------- */
+export const BARRIERS: readonly Rect[] = [
+  // Four rectangles forming a square hoop in the center
+  { x: FIELD_WIDTH / 2 - 60, y: FIELD_HEIGHT / 2 - 120, w: 120, h: 10 }, // top horizontal
+  { x: FIELD_WIDTH / 2 - 60, y: FIELD_HEIGHT / 2 + 100, w: 120, h: 10 }, // bottom horizontal
+  { x: FIELD_WIDTH / 2 - 120, y: FIELD_HEIGHT / 2 - 60, w: 10, h: 120 }, // left vertical
+  { x: FIELD_WIDTH / 2 + 110, y: FIELD_HEIGHT / 2 - 60, w: 10, h: 120 }, // right vertical
+
+  // Side vertical bars
+  { x: 50, y: 150, w: 10, h: 200 }, // left bar
+  { x: FIELD_WIDTH - 60, y: 150, w: 10, h: 200 }, // right bar
+  // Top and bottom horizontal bars
+  { x: 150, y: 40, w: 200, h: 10 }, // top bar
+  { x: 150, y: FIELD_HEIGHT - 70, w: 200, h: 10 }, // bottom bar
+  // Frame walls (10px thick)
+  { x: 0, y: 0, w: FIELD_WIDTH, h: 10 }, // top wall
+  { x: 0, y: FIELD_HEIGHT - 10, w: FIELD_WIDTH, h: 10 }, // bottom wall
+  { x: 0, y: 0, w: 10, h: FIELD_HEIGHT }, // left wall
+  { x: FIELD_WIDTH - 10, y: 0, w: 10, h: FIELD_HEIGHT }, // right wall
+];
+
+// AABB collision of a size×size square with any barrier
+export const collidesBarrier = (x: number, y: number, size: number) =>
+  BARRIERS.some(
+    (b) => x < b.x + b.w && x + size > b.x && y < b.y + b.h && y + size > b.y
+  );
+
+/* ---------- Navigation ----------- */
+
+// Derived from static layouts only, so sharing them between rounds keeps step() pure
+let classicPathfinder: Pathfinder | null = null;
+const mazePathfinders = new WeakMap<Maze, Pathfinder>();
+
+/** Pathfinder for ghost-sized actors on the current field – Pac-Man's size too. */
+export const pathfinderFor = (s: PacmanState): Pathfinder => {
+  if (!s.maze) {
+    classicPathfinder ??= createPathfinder(
+      navGridFromBarriers(BARRIERS, FIELD_WIDTH, FIELD_HEIGHT, GHOST_SIZE, NAV_CELL)
+    );
+    return classicPathfinder;
+  }
+  let pathfinder = mazePathfinders.get(s.maze);
+  if (!pathfinder) {
+    pathfinder = createPathfinder(navGridFromMaze(s.maze));
+    mazePathfinders.set(s.maze, pathfinder);
+  }
+  return pathfinder;
+};
+
+// Distance between the centres of two square actors
+const centreDistance = (a: Point, aSize: number, b: Point, bSize: number) =>
+  Math.hypot(a.x + aSize / 2 - (b.x + bSize / 2), a.y + aSize / 2 - (b.y + bSize / 2));
+
+/* ---------- Spawning helpers ----------- */
+const randomPos = (rng: Rng, size: number): Point => {
+  let pos;
+  // Keep generating positions until the item does not spawn inside a barrier
+  do {
+    pos = {
+      x: rng.next() * (FIELD_WIDTH - size),
+      y: rng.next() * (FIELD_HEIGHT - size),
+    };
+  } while (collidesBarrier(pos.x, pos.y, size));
+  return pos;
+};
+
+const randomHeading = (rng: Rng, speed: number) => {
+  const angle = rng.next() * Math.PI * 2;
+  return { dx: Math.cos(angle) * speed, dy: Math.sin(angle) * speed };
+};
+
+const spawnGhost = (rng: Rng, i: number): Ghost => {
+  const pos = randomPos(rng, GHOST_SIZE);
+  return {
+    ...pos,
+    ...randomHeading(rng, GHOST_SPEED),
+    personality: PERSONALITIES[i % PERSONALITIES.length],
+    vulnerableUntil: 0,
+    eaten: false,
+    releaseAt: 0,
+  };
+};
+
+/** Where a ghost respawns: its house tile in the maze, the centre of the hoop in classic. */
+const ghostHome = (s: PacmanState, i: number): Point =>
+  s.maze
+    ? tileToPoint(s.maze.ghostHouse[i % s.maze.ghostHouse.length])
+    : { x: FIELD_WIDTH / 2 - GHOST_SIZE / 2, y: FIELD_HEIGHT / 2 - GHOST_SIZE / 2 };
+
+/** Eyes made it home: back in one piece after a short wait. */
+const reviveGhost = (s: PacmanState, g: Ghost, i: number) => {
+  Object.assign(g, ghostHome(s, i));
+  g.dx = 0;
+  g.dy = 0;
+  g.eaten = false;
+  g.vulnerableUntil = 0;
+  g.releaseAt = s.time + EATEN_MS;
+};
+
+/** Ghost number `i` waiting in the house; they come out one after another. */
+const houseGhost = (s: PacmanState, i: number): Ghost => ({
+  ...ghostHome(s, i),
+  dx: 0,
+  dy: 0,
+  personality: PERSONALITIES[i % PERSONALITIES.length],
+  vulnerableUntil: 0,
+  eaten: false,
+  releaseAt: s.time + i * RELEASE_STAGGER_MS,
+});
+
+/** Classic: where Pac-Man comes back after losing a life, clear of the ghost house. */
+const PAC_RESPAWN: Point = { x: FIELD_WIDTH / 2 - PAC_SIZE / 2, y: FIELD_HEIGHT - 120 };
+
+const playerCount = (rules: PacmanRules) => (rules === 'coop' || rules === 'versus' ? 2 : 1);
+
+/** Classic: two players stand side by side, a sprite's width either side of the spot. */
+const sideBySide = (rules: PacmanRules, i: number) =>
+  playerCount(rules) === 1 ? 0 : (i === 0 ? -1 : 1) * PAC_SIZE;
+
+/** Where player `i` (re)spawns; in the maze player 2 takes the first open tile next to the spawn. */
+const playerSpawn = (s: PacmanState, i: number): Point => {
+  if (!s.maze) return { x: PAC_RESPAWN.x + sideBySide(s.rules, i), y: PAC_RESPAWN.y };
+  const spawn = s.maze.pacmanSpawn;
+  const beside = openDirections(s.maze, spawn)[0];
+  if (i === 0 || !beside) return tileToPoint(spawn);
+  const { dc, dr } = DIRECTION_VECTORS[beside];
+  return tileToPoint({ col: spawn.col + dc, row: spawn.row + dr });
+};
+
+/** Player `i` standing still on its spawn. */
+const respawnPlayer = (s: PacmanState, i: number) => {
+  Object.assign(s.players[i], playerSpawn(s, i), { dx: 0, dy: 0, bufferedDirection: null });
+};
+
+/** Every Pac-Man back on its spawn and every ghost back in the house. */
+const resetActors = (s: PacmanState) => {
+  s.players.forEach((_, i) => respawnPlayer(s, i));
+  s.ghosts = Array.from({ length: difficultyFor(s.level).ghostCount }, (_, i) => houseGhost(s, i));
+};
+
+/** Ghost speed for the current level: the mode's (or maze level's) base speed, scaled up. */
+const applyDifficulty = (s: PacmanState) => {
+  const base = s.maze ? currentMazeLevel(s).ghostSpeed : GHOST_SPEED;
+  s.ghostSpeed = base * difficultyFor(s.level).ghostSpeedFactor;
+};
+
+const currentMazeLevel = (s: PacmanState) => s.levels[(s.level - 1) % s.levels.length];
+
+/** Put the maze for `s.level` on the field: fresh pellets, everyone back on their spawns. */
+const enterLevel = (s: PacmanState) => {
+  const level = currentMazeLevel(s);
+  const { maze } = level;
+  s.maze = maze;
+  s.pacmanSpeed = level.pacmanSpeed;
+  s.pellets = maze.pellets;
+  s.powerPellets = maze.powerPellets;
+  s.levelStartedAt = s.time;
+  s.phase = ghostPhase(0);
+  applyDifficulty(s);
+  resetActors(s);
+};
+
+/* ---------- Public API ----------- */
+
+/**
+ * Fresh round. Classic: Pac-Man in the centre, ghosts, cherries and the apex
+ * at seeded random spots. Maze: everyone on their spawn tiles and every
+ * corridor filled with pellets.
+ */
+export function createPacmanState(
+  seed: number,
+  { mode = 'classic', rules = 'solo', levels = BUNDLED_LEVELS }: PacmanOptions = {}
+): PacmanState {
+  const rng = createRng(seed);
+  const lives = rules === 'hunt' ? 1 : START_LIVES;
+  const state: PacmanState = {
+    seed,
+    rngState: seed >>> 0,
+    time: 0,
+    mode,
+    rules,
+    pacmanSpeed: PAC_SPEED,
+    ghostSpeed: GHOST_SPEED,
+    players: Array.from({ length: playerCount(rules) }, (_, i) => ({
+      x: FIELD_WIDTH / 2 + sideBySide(rules, i),
+      y: FIELD_HEIGHT / 2,
+      dx: 0,
+      dy: 0,
+      bufferedDirection: null,
+      invulnerableUntil: 0,
+      score: 0,
+      lives,
+    })),
+    ghosts: [],
+    score: 0,
+    ghostScore: 0,
+    hunterTurn: null,
+    gameOver: false,
+    lives,
+    extraLivesAwarded: 0,
+    levelStartedAt: 0,
+    phase: ghostPhase(0),
+    cherries: [],
+    apex: null,
+    apexRespawnAt: 0,
+    levels,
+    maze: null,
+    pellets: [],
+    powerPellets: [],
+    level: 1,
+    events: [],
+  };
+
+  if (mode === 'maze') {
+    enterLevel(state);
+    return state;
+  }
+
+  state.ghosts = Array.from({ length: difficultyFor(1).ghostCount }, (_, i) => spawnGhost(rng, i));
+  // The hunter waits for player 2 instead of drifting off
+  if (rules === 'hunt') Object.assign(state.ghosts[HUNTER_GHOST], { dx: 0, dy: 0 });
+  // Ghosts start at random spots, possibly right on top of Pac-Man: give the
+  // same head start as after losing a life
+  state.players.forEach((p) => (p.invulnerableUntil = RESPAWN_INVULNERABLE_MS));
+  state.cherries = Array.from({ length: NUM_CHERRIES }, () => randomPos(rng, CHERRY_SIZE));
+  state.apex = randomPos(rng, APEX_SIZE);
+  state.rngState = rng.getState();
+  return state;
+}
+
+/** Velocity for a requested direction. */
+export const directionVelocity = (dir: Direction, speed: number) => {
+  const v = DIRECTION_VECTORS[dir];
+  return { dx: v.dc * speed, dy: v.dr * speed };
+};
+
+/** Direction of an axis-aligned velocity, null when standing still. */
+const velocityDirection = (dx: number, dy: number): Direction | null => {
+  if (dx > 0) return 'right';
+  if (dx < 0) return 'left';
+  if (dy > 0) return 'down';
+  if (dy < 0) return 'up';
+  return null;
+};
+
+/** Whether a Pac-Man is on the field; in versus a player is out once its lives are gone. */
+export const isPlayerInPlay = (state: PacmanState, p: PacmanPlayer) => state.rules !== 'versus' || p.lives > 0;
+
+/** Whether ghost `i` is steered by a player rather than its AI. */
+export const isHunterGhost = (state: PacmanState, i: number) => state.rules === 'hunt' && i === HUNTER_GHOST;
+
+/** The Pac-Man in play nearest to `at`, the one ghosts go after. */
+const nearestPlayer = (s: PacmanState, at: Point) =>
+  s.players
+    .filter((p) => isPlayerInPlay(s, p))
+    .reduce((best, p) => (Math.hypot(p.x - at.x, p.y - at.y) < Math.hypot(best.x - at.x, best.y - at.y) ? p : best));
+
+/** Index of a Pac-Man in play touching an item of `size` at `at`, or -1. */
+const playerTouching = (s: PacmanState, at: Point, size: number) =>
+  s.players.findIndex(
+    (p) => isPlayerInPlay(s, p) && centreDistance(p, PAC_SIZE, at, size) < (PAC_SIZE + size) / 2
+  );
+
+/** Direction player `i` asked for this step. */
+const directionFor = (input: PacmanInput, i: number) => (i === 0 ? input.direction : input.direction2);
+
+/** Actor sizes depend on the mode: one tile in the maze, sprite-sized in classic. */
+export const pacSize = (state: PacmanState) => (state.maze ? TILE_SIZE : PAC_SIZE);
+export const ghostSize = (state: PacmanState) => (state.maze ? TILE_SIZE : GHOST_SIZE);
+
+/** Ghosts turn around whenever their mode changes, which gives the player a cue. */
+const reverseGhost = (g: Ghost) => {
+  g.dx = -g.dx;
+  g.dy = -g.dy;
+};
+
+/** Every ghost on the field becomes edible for a while; eyes stay eyes. A player's ghost isn't turned round. */
+const frightenGhosts = (s: PacmanState) => {
+  s.ghosts.forEach((g, i) => {
+    if (g.eaten) return;
+    if (s.time >= g.vulnerableUntil && !isHunterGhost(s, i)) reverseGhost(g);
+    g.vulnerableUntil = s.time + difficultyFor(s.level).frightenedMs;
+  });
+};
+
+const ghostSpeedOf = (s: PacmanState, g: Ghost) => {
+  if (g.eaten) return EYES_SPEED;
+  return s.time < g.vulnerableUntil ? s.ghostSpeed * FRIGHTENED_SPEED_FACTOR : s.ghostSpeed;
+};
+
+/* ---------- Classic mode ----------- */
+
+/** Free movement for a classic ghost: bounce off the frame, slide along barriers. */
+function moveClassicGhost(g: Ghost, k: number) {
+  const prevX = g.x;
+  const prevY = g.y;
+  g.x += g.dx * k;
+  g.y += g.dy * k;
+
+  // Bounce off field edges
+  if (g.x < 0) {
+    g.x = 0;
+    g.dx *= -1;
+  } else if (g.x > FIELD_WIDTH - GHOST_SIZE) {
+    g.x = FIELD_WIDTH - GHOST_SIZE;
+    g.dx *= -1;
+  }
+  if (g.y < 0) {
+    g.y = 0;
+    g.dy *= -1;
+  } else if (g.y > FIELD_HEIGHT - GHOST_SIZE) {
+    g.y = FIELD_HEIGHT - GHOST_SIZE;
+    g.dy *= -1;
+  }
+
+  if (!collidesBarrier(g.x, g.y, GHOST_SIZE)) return;
+  // Blocked: keep whichever axis is still free so ghosts slide round barriers
+  if (!collidesBarrier(g.x, prevY, GHOST_SIZE)) {
+    g.y = prevY;
+  } else if (!collidesBarrier(prevX, g.y, GHOST_SIZE)) {
+    g.x = prevX;
+  } else {
+    g.x = prevX;
+    g.y = prevY;
+    reverseGhost(g);
+  }
+}
+
+function stepClassicGhost(s: PacmanState, g: Ghost, i: number, k: number, rng: Rng) {
+  const speed = ghostSpeedOf(s, g);
+  const pathfinder = pathfinderFor(s);
+  const { grid } = pathfinder;
+
+  // Head for the next cell on the shortest way round the barriers
+  const steerTowards = (target: Point) => {
+    const from = cellAt(grid, g);
+    const dir = pathfinder.nextStep(from, cellAt(grid, target));
+    const waypoint = dir
+      ? cellToPoint(grid, { col: from.col + DIRECTION_VECTORS[dir].dc, row: from.row + DIRECTION_VECTORS[dir].dr })
+      : target;
+    const angle = Math.atan2(waypoint.y - g.y, waypoint.x - g.x);
+    g.dx = Math.cos(angle);
+    g.dy = Math.sin(angle);
+  };
+
+  if (g.eaten) {
+    const home = ghostHome(s, i);
+    if (Math.hypot(home.x - g.x, home.y - g.y) <= speed * k) {
+      reviveGhost(s, g, i);
+      return;
+    }
+    steerTowards(home);
+  } else if (s.time < g.releaseAt) {
+    return;
+  } else if (isHunterGhost(s, i)) {
+    // Player 2 steers – frightened or not, at the speed the rules allow
+    if (s.hunterTurn) Object.assign(g, directionVelocity(s.hunterTurn, 1));
+    s.hunterTurn = null;
+  } else if (s.time < g.vulnerableUntil) {
+    // Frightened: wander aimlessly
+    if (rng.next() < 0.02 * k) Object.assign(g, randomHeading(rng, speed));
+  } else {
+    steerTowards(ghostTarget(s, g, s.phase, nearestPlayer(s, g)));
+  }
+  const len = Math.hypot(g.dx, g.dy) || 1;
+  g.dx = (g.dx / len) * speed;
+  g.dy = (g.dy / len) * speed;
+
+  moveClassicGhost(g, k);
+}
+
+/** Free movement for a classic Pac-Man: stopped by barriers, kept inside the frame. */
+function moveClassicPacman(s: PacmanState, pacman: PacmanActor, direction: Direction | null | undefined, k: number) {
+  if (direction) {
+    Object.assign(pacman, directionVelocity(direction, s.pacmanSpeed));
+  }
+
+  // Pac-Man movement with barrier collision check
+  const prevPacX = pacman.x;
+  const prevPacY = pacman.y;
+  pacman.x += pacman.dx * k;
+  pacman.y += pacman.dy * k;
+
+  if (collidesBarrier(pacman.x, pacman.y, PAC_SIZE)) {
+    // Revert movement if hitting barrier
+    pacman.x = prevPacX;
+    pacman.y = prevPacY;
+    pacman.dx = 0;
+    pacman.dy = 0;
+  }
+
+  // Keep Pac-Man inside frame walls (prevent leaving play area)
+  pacman.x = Math.min(Math.max(pacman.x, 10), FIELD_WIDTH - PAC_SIZE - 10);
+  pacman.y = Math.min(Math.max(pacman.y, 10), FIELD_HEIGHT - PAC_SIZE - 10);
+}
+
+function stepClassic(s: PacmanState, input: PacmanInput, k: number, rng: Rng) {
+  const now = s.time;
+
+  s.players.forEach((p, i) => {
+    if (isPlayerInPlay(s, p)) moveClassicPacman(s, p, directionFor(input, i), k);
+  });
+
+  s.ghosts.forEach((g, i) => stepClassicGhost(s, g, i, k, rng));
+
+  // Cherry pickups – always keep the field stocked
+  const remaining: Point[] = [];
+  for (const c of s.cherries) {
+    const player = playerTouching(s, c, CHERRY_SIZE);
+    if (player < 0) remaining.push(c);
+    else emitEvent(s, { type: 'cherryEaten', player, at: c, points: 1 });
+  }
+  while (remaining.length < NUM_CHERRIES) {
+    remaining.push(randomPos(rng, CHERRY_SIZE));
+  }
+  s.cherries = remaining;
+
+  // Apex pickup makes every ghost vulnerable
+  const apexTaker = s.apex ? playerTouching(s, s.apex, APEX_SIZE) : -1;
+  if (s.apex && apexTaker >= 0) {
+    emitEvent(s, { type: 'apexCollected', player: apexTaker, at: s.apex });
+    s.apex = null;
+    s.apexRespawnAt = now + difficultyFor(s.level).apexRespawnMs;
+    frightenGhosts(s);
+  }
+
+  // Handle apex respawn
+  if (!s.apex && now > s.apexRespawnAt) {
+    s.apex = randomPos(rng, APEX_SIZE);
+  }
+}
+
+/* ---------- Maze mode ----------- */
+
+function stepMazeGhost(s: PacmanState, maze: Maze, g: Ghost, i: number, k: number, rng: Rng) {
+  if (!g.eaten && s.time < g.releaseAt) return;
+
+  const speed = ghostSpeedOf(s, g);
+  const frightened = !g.eaten && s.time < g.vulnerableUntil;
+  const pathfinder = pathfinderFor(s);
+  const pointTile = (p: Point) => tileAt(p.x, p.y);
+  const home = pointTile(ghostHome(s, i));
+  // Eyes head home, frightened ghosts pick at random, the rest follow their personality
+  const target = g.eaten ? home : frightened ? null : pointTile(ghostTarget(s, g, s.phase, nearestPlayer(s, g)));
+  const distanceFrom = target && ((tile: Tile) => pathfinder.distance(tile, target));
+
+  // Player 2's ghost moves like Pac-Man does; its eyes still find their own way home
+  if (!g.eaten && isHunterGhost(s, i)) {
+    s.hunterTurn = moveSteered(maze, g, s.hunterTurn, speed, k);
+    return;
+  }
+
+  let arrived = false;
+  const next = moveOnGrid(maze, { x: g.x, y: g.y, dir: velocityDirection(g.dx, g.dy) }, speed * k, (tile, current) => {
+    if (g.eaten && sameTile(tile, home)) {
+      arrived = true;
+      return null;
+    }
+    // Eyes may turn back, they just take the shortest way home
+    if (g.eaten) return pathfinder.nextStep(tile, home);
+    return chooseMazeDirection(maze, tile, current, distanceFrom, () => rng.next());
+  });
+  g.x = next.x;
+  g.y = next.y;
+  Object.assign(g, next.dir ? directionVelocity(next.dir, speed) : { dx: 0, dy: 0 });
+  if (arrived) reviveGhost(s, g, i);
+}
+
+/**
+ * Grid movement for an actor a player steers. Turns are buffered until it
+ * reaches a tile where they fit; reversing is always possible straight away.
+ * Returns the turn still waiting.
+ */
+function moveSteered(maze: Maze, actor: PacmanActor, buffered: Direction | null, speed: number, k: number) {
+  let dir = velocityDirection(actor.dx, actor.dy);
+  if (dir && buffered === opposite(dir)) {
+    dir = buffered;
+    buffered = null;
+  }
+
+  const moved = moveOnGrid(maze, { x: actor.x, y: actor.y, dir }, speed * k, (tile, current) => {
+    if (buffered && canMove(maze, tile, buffered)) {
+      const turn = buffered;
+      buffered = null;
+      return turn;
+    }
+    return current;
+  });
+  actor.x = moved.x;
+  actor.y = moved.y;
+  Object.assign(actor, moved.dir ? directionVelocity(moved.dir, speed) : { dx: 0, dy: 0 });
+  return buffered;
+}
+
+/** Grid movement for a maze Pac-Man, taking its buffered turn where it fits. */
+function moveMazePacman(
+  s: PacmanState,
+  maze: Maze,
+  p: PacmanPlayer,
+  direction: Direction | null | undefined,
+  k: number
+) {
+  if (direction) p.bufferedDirection = direction;
+  p.bufferedDirection = moveSteered(maze, p, p.bufferedDirection, s.pacmanSpeed, k);
+}
+
+function stepMaze(s: PacmanState, maze: Maze, input: PacmanInput, k: number, rng: Rng) {
+  s.players.forEach((p, i) => {
+    if (isPlayerInPlay(s, p)) moveMazePacman(s, maze, p, directionFor(input, i), k);
+  });
+
+  s.ghosts.forEach((g, i) => stepMazeGhost(s, maze, g, i, k, rng));
+
+  // Pellets; power pellets reuse the apex behaviour
+  s.players.forEach((p, player) => {
+    if (!isPlayerInPlay(s, p)) return;
+    const pacTile = tileAt(p.x, p.y);
+    const eatenAt = (t: Tile) => sameTile(t, pacTile);
+    if (s.pellets.some(eatenAt)) {
+      s.pellets = s.pellets.filter((t) => !eatenAt(t));
+      emitEvent(s, { type: 'pelletEaten', player, tile: pacTile, power: false, points: 1 });
+    }
+    if (s.powerPellets.some(eatenAt)) {
+      s.powerPellets = s.powerPellets.filter((t) => !eatenAt(t));
+      emitEvent(s, { type: 'pelletEaten', player, tile: pacTile, power: true, points: 1 });
+      frightenGhosts(s);
+    }
+  });
+
+  // Level clear: on to the next layout
+  if (s.pellets.length === 0 && s.powerPellets.length === 0) {
+    emitEvent(s, { type: 'levelCleared', level: s.level });
+    s.level += 1;
+    enterLevel(s);
+  }
+}
+
+/* ---------- Shared rules ----------- */
+
+/** Record an event for this step; its points, if any, are what the scores are made of. */
+function emitEvent(s: PacmanState, event: PacmanEvent) {
+  s.events.push(event);
+  if (!('points' in event)) return;
+  s.score += event.points;
+  s.players[event.player].score += event.points;
+}
+
+/** Switch between scatter and chase on schedule; AI ghosts out on the field turn around. */
+function updateGhostPhase(s: PacmanState) {
+  const phase = ghostPhase(s.time - s.levelStartedAt);
+  if (phase === s.phase) return;
+  s.phase = phase;
+  s.ghosts.forEach((g, i) => {
+    if (!g.eaten && s.time >= g.vulnerableUntil && !isHunterGhost(s, i)) reverseGhost(g);
+  });
+}
+
+/**
+ * A ghost caught player `i`: one life less. Alone, everyone goes back to
+ * their starting spots; with two players only the one caught does.
+ */
+function loseLife(s: PacmanState, i: number) {
+  const p = s.players[i];
+  if (s.rules === 'versus') p.lives -= 1;
+  else s.lives -= 1;
+  const livesLeft = s.rules === 'versus' ? p.lives : s.lives;
+  emitEvent(s, { type: 'playerDied', player: i, livesLeft, at: { x: p.x, y: p.y } });
+
+  if (s.lives <= 0 || !s.players.some((player) => isPlayerInPlay(s, player))) {
+    s.gameOver = true;
+    return;
+  }
+  // Versus: out of the round, the other player carries on
+  if (livesLeft <= 0) return;
+  if (s.players.length === 1) resetActors(s);
+  else respawnPlayer(s, i);
+  p.invulnerableUntil = s.time + RESPAWN_INVULNERABLE_MS;
+}
+
+// Ghost contact: eat a frightened ghost, otherwise lose a life
+function resolveGhostContacts(s: PacmanState) {
+  const pSize = pacSize(s);
+  const gSize = ghostSize(s);
+  for (const [player, p] of s.players.entries()) {
+    if (!isPlayerInPlay(s, p)) continue;
+    for (const [i, g] of s.ghosts.entries()) {
+      if (g.eaten) continue; // eyes are harmless
+      if (centreDistance(p, pSize, g, gSize) >= (pSize + gSize) / 2) continue;
+
+      if (s.time < g.vulnerableUntil) {
+        const at = { x: g.x, y: g.y };
+        emitEvent(s, { type: 'ghostEaten', player, ghost: i, personality: g.personality, at, points: 10 });
+        g.eaten = true;
+        g.vulnerableUntil = 0;
+      } else if (s.time >= p.invulnerableUntil) {
+        loseLife(s, player);
+        // Alone, the ghosts went back to the house along with Pac-Man
+        if (s.gameOver || s.players.length === 1) return;
+        break;
+      }
+    }
+  }
+}
+
+/** Extra lives at (team) score milestones – only alone or in co-op; classic levels go up with the score. */
+function updateProgress(s: PacmanState) {
+  const awardsLives = s.rules === 'solo' || s.rules === 'coop';
+  while (awardsLives && s.extraLivesAwarded < EXTRA_LIFE_SCORES.length && s.score >= EXTRA_LIFE_SCORES[s.extraLivesAwarded]) {
+    s.extraLivesAwarded += 1;
+    if (s.lives < MAX_LIVES) {
+      s.lives += 1;
+      emitEvent(s, { type: 'extraLife', lives: s.lives });
+    }
+  }
+
+  if (s.maze) return;
+  const level = 1 + Math.floor(s.score / CLASSIC_LEVEL_POINTS);
+  if (level <= s.level) return;
+  for (let cleared = s.level; cleared < level; cleared++) emitEvent(s, { type: 'levelCleared', level: cleared });
+  s.level = level;
+  applyDifficulty(s);
+  // New ghosts join from the house
+  const { ghostCount } = difficultyFor(level);
+  while (s.ghosts.length < ghostCount) s.ghosts.push(houseGhost(s, s.ghosts.length));
+}
+
+/** Hunt: a catch ends the round in the ghosts' favour; holding out until HUNT_MS, in Pac-Man's. */
+function updateHunt(s: PacmanState) {
+  if (s.rules !== 'hunt') return;
+  if (s.gameOver) {
+    // Caught this step; a quick catch is worth more
+    s.ghostScore += CATCH_POINTS + Math.max(0, Math.ceil((HUNT_MS - s.time) / 1000));
+    return;
+  }
+  if (s.time < HUNT_MS) return;
+  emitEvent(s, { type: 'timeUp', player: 0, points: ESCAPE_POINTS });
+  s.gameOver = true;
+}
+
+/**
+ * Advance the simulation by `dtMs` of game time. Pure: `state` is left
+ * untouched and the next state is returned.
+ */
+export function step(state: PacmanState, input: PacmanInput, dtMs: number): PacmanState {
+  if (state.gameOver) return state;
+
+  const rng = createRng(state.rngState);
+  const k = dtMs / FRAME_MS;
+
+  // Working copy; the helpers above mutate it and replace (never mutate) arrays they
+  // filter – except the fresh events list, which they append to
+  const next: PacmanState = {
+    ...state,
+    time: state.time + dtMs,
+    players: state.players.map((p) => ({ ...p })),
+    ghosts: state.ghosts.map((g) => ({ ...g })),
+    events: [],
+  };
+  if (input.ghostDirection) next.hunterTurn = input.ghostDirection;
+
+  updateGhostPhase(next);
+  if (next.maze) {
+    stepMaze(next, next.maze, input, k, rng);
+  } else {
+    stepClassic(next, input, k, rng);
+  }
+  resolveGhostContacts(next);
+  updateProgress(next);
+  updateHunt(next);
+
+  next.rngState = rng.getState();
+  return next;
+}
+
+/** The player with the most points – the winner of a two-player round – or null on a tie. */
+export function leadingPlayer(state: PacmanState): number | null {
+  const best = Math.max(...state.players.map((p) => p.score));
+  const leaders = state.players.flatMap((p, i) => (p.score === best ? [i] : []));
+  return leaders.length === 1 ? leaders[0] : null;
+}
+
+/** Hunt: which side won the finished round – 0 if Pac-Man held out, 1 if the ghosts caught it. */
+export const huntWinner = (state: PacmanState) => (state.lives > 0 ? 0 : 1);
+
+/** Whether a ghost can currently be eaten. */
+export const isGhostVulnerable = (state: PacmanState, g: Ghost) => state.time < g.vulnerableUntil;
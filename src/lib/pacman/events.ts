@@ -0,0 +1,30 @@
+import type { EventOf } from '@/lib/emitter';
+import type { Point } from './engine';
+import type { GhostPersonality } from './ghostAI';
+import type { Tile } from './maze';
+
+/**
+ * What can happen during a Pac-Man step. The engine records these in
+ * `state.events` (see emitEvent in ./engine) and adds their `points` to the
+ * score; the UI replays them on an emitter for sound, effects and stats.
+ * `player` is the index of the Pac-Man involved (0 unless two are playing).
+ */
+export type PacmanEvents = {
+  cherryEaten: { player: number; at: Point; points: number };
+  /** Maze pellets; power pellets frighten the ghosts like the apex does. */
+  pelletEaten: { player: number; tile: Tile; power: boolean; points: number };
+  apexCollected: { player: number; at: Point };
+  ghostEaten: { player: number; ghost: number; personality: GhostPersonality; at: Point; points: number };
+  /**
+   * Caught by a ghost at `at`, with the lives left to that player (the shared
+   * ones outside versus); check `gameOver` for the end of the round.
+   */
+  playerDied: { player: number; livesLeft: number; at: Point };
+  extraLife: { lives: number };
+  /** `level` was finished – the maze cleared, or enough points in classic mode. */
+  levelCleared: { level: number };
+  /** Hunt: Pac-Man held out until the time limit, which ends the round. */
+  timeUp: { player: number; points: number };
+};
+
+export type PacmanEvent = EventOf<PacmanEvents>;
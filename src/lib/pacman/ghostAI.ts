@@ -0,0 +1,123 @@
+import type { Direction, Ghost, PacmanActor, PacmanState, Point } from './engine';
+import { DIRECTION_VECTORS, FIELD_HEIGHT, FIELD_WIDTH, Maze, openDirections, opposite, Tile, TILE_SIZE } from './maze';
+
+/**
+ * Ghost behaviour, modelled on the arcade original.
+ *
+ * Every ghost has a personality that decides which tile it aims for while
+ * chasing. All ghosts alternate between scatter phases (each retreats to its
+ * own corner) and chase phases on a fixed schedule. Frightened ghosts – after
+ * an apex/power pellet – wander at random, and eaten ghosts travel back to
+ * the ghost house as eyes before they rejoin.
+ */
+
+export type GhostPersonality =
+  | 'chaser' // heads straight for Pac-Man
+  | 'ambusher' // aims a few tiles ahead of Pac-Man
+  | 'flanker' // mirrors the chaser around a point ahead of Pac-Man
+  | 'shy'; // chases from afar, backs off to its corner when close
+
+/** Assigned to ghosts in this order. */
+export const PERSONALITIES: readonly GhostPersonality[] = ['chaser', 'ambusher', 'flanker', 'shy'];
+
+export type GhostPhase = 'scatter' | 'chase';
+
+/** Scatter/chase schedule from the start of a level; chase forever afterwards. */
+const PHASES: readonly [GhostPhase, number][] = [
+  ['scatter', 7000],
+  ['chase', 20000],
+  ['scatter', 7000],
+  ['chase', 20000],
+  ['scatter', 5000],
+  ['chase', 20000],
+  ['scatter', 5000],
+];
+
+const AMBUSH_TILES = 4;
+const FLANK_PIVOT_TILES = 2;
+const SHY_RADIUS_TILES = 8;
+
+export function ghostPhase(levelTime: number): GhostPhase {
+  let t = levelTime;
+  for (const [phase, duration] of PHASES) {
+    if (t < duration) return phase;
+    t -= duration;
+  }
+  return 'chase';
+}
+
+const fieldSize = (s: PacmanState) =>
+  s.maze
+    ? { w: s.maze.cols * TILE_SIZE, h: s.maze.rows * TILE_SIZE }
+    : { w: FIELD_WIDTH, h: FIELD_HEIGHT };
+
+const scatterCorner = (s: PacmanState, personality: GhostPersonality): Point => {
+  const { w, h } = fieldSize(s);
+  switch (personality) {
+    case 'chaser':
+      return { x: w - TILE_SIZE, y: 0 };
+    case 'ambusher':
+      return { x: 0, y: 0 };
+    case 'flanker':
+      return { x: w - TILE_SIZE, y: h - TILE_SIZE };
+    case 'shy':
+      return { x: 0, y: h - TILE_SIZE };
+  }
+};
+
+/** Unit vector of Pac-Man's heading, zero when standing still. */
+const pacmanHeading = ({ dx, dy }: PacmanActor) => {
+  const len = Math.hypot(dx, dy);
+  return len ? { x: dx / len, y: dy / len } : { x: 0, y: 0 };
+};
+
+/**
+ * Point (top-left of an actor) a non-frightened ghost is steering for, when
+ * hunting `pacman` – with two players, the engine picks the nearer one.
+ */
+export function ghostTarget(s: PacmanState, g: Ghost, phase: GhostPhase, pacman: PacmanActor): Point {
+  if (phase === 'scatter') return scatterCorner(s, g.personality);
+
+  const heading = pacmanHeading(pacman);
+  const ahead = (tiles: number) => ({
+    x: pacman.x + heading.x * tiles * TILE_SIZE,
+    y: pacman.y + heading.y * tiles * TILE_SIZE,
+  });
+
+  switch (g.personality) {
+    case 'chaser':
+      return { x: pacman.x, y: pacman.y };
+    case 'ambusher':
+      return ahead(AMBUSH_TILES);
+    case 'flanker': {
+      const pivot = ahead(FLANK_PIVOT_TILES);
+      const chaser = s.ghosts.find((other) => other.personality === 'chaser') ?? g;
+      return { x: 2 * pivot.x - chaser.x, y: 2 * pivot.y - chaser.y };
+    }
+    case 'shy': {
+      const far = Math.hypot(pacman.x - g.x, pacman.y - g.y) > SHY_RADIUS_TILES * TILE_SIZE;
+      return far ? { x: pacman.x, y: pacman.y } : scatterCorner(s, 'shy');
+    }
+  }
+}
+
+/**
+ * Direction to take at a tile centre in the maze: never back the way it came
+ * (unless it's a dead end), then whichever neighbour is closest to the target
+ * by `distanceFrom` – or a random one when frightened (no distance given).
+ */
+export function chooseMazeDirection(
+  maze: Maze,
+  tile: Tile,
+  current: Direction | null,
+  distanceFrom: ((tile: Tile) => number) | null,
+  random: () => number
+): Direction | null {
+  const options = openDirections(maze, tile).filter((d) => !current || d !== opposite(current));
+  if (options.length === 0) return current ? opposite(current) : null;
+  if (!distanceFrom) return options[Math.floor(random() * options.length)];
+
+  const distance = (d: Direction) =>
+    distanceFrom({ col: tile.col + DIRECTION_VECTORS[d].dc, row: tile.row + DIRECTION_VECTORS[d].dr });
+  return options.reduce((best, d) => (distance(d) < distance(best) ? d : best));
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { BUNDLED_LEVELS, LevelError, LevelFile, loadLevel, serializeLevel } from './levels';
+
+const SMALL: LevelFile = {
+  format: 1,
+  name: 'Small',
+  map: [
+    '#######', //
+    '#.....#',
+    '#.#o#.#',
+    '#.. ..#',
+    '#######',
+  ],
+  pacman: { col: 3, row: 3 },
+  ghostHouse: [{ col: 1, row: 1 }],
+};
+
+/** The issues loadLevel() reports for a variation on SMALL. */
+const issuesFor = (changes: Record<string, unknown>) => {
+  try {
+    loadLevel({ ...SMALL, ...changes });
+  } catch (err) {
+    expect(err).toBeInstanceOf(LevelError);
+    return (err as LevelError).issues;
+  }
+  throw new Error('Level loaded without issues');
+};
+
+describe('loadLevel', () => {
+  it('loads a valid level with default speeds', () => {
+    const level = loadLevel(SMALL);
+    expect(level.name).toBe('Small');
+    expect(level.maze.pellets).toHaveLength(11);
+    expect(level.maze.powerPellets).toEqual([{ col: 3, row: 2 }]);
+    expect(level.pacmanSpeed).toBeGreaterThan(0);
+  });
+
+  it('round-trips through serializeLevel()', () => {
+    const level = loadLevel(SMALL);
+    expect(loadLevel(serializeLevel(level))).toEqual(level);
+  });
+
+  it('loads every bundled level', () => {
+    expect(BUNDLED_LEVELS.length).toBeGreaterThan(0);
+    for (const level of BUNDLED_LEVELS) expect(loadLevel(serializeLevel(level))).toEqual(level);
+  });
+
+  it('rejects documents that are not objects', () => {
+    expect(() => loadLevel('level')).toThrow(LevelError);
+  });
+
+  it('names the level in the error message', () => {
+    expect(() => loadLevel({ ...SMALL, format: 2 })).toThrow(/Invalid level "Small"/);
+  });
+
+  it('reports problems with the map itself', () => {
+    expect(issuesFor({ format: 2, map: [...SMALL.map.slice(0, 4), '####'] })).toEqual([
+      '"format" must be 1',
+      'Map row 4 is 4 tiles wide, expected 7',
+    ]);
+    expect(issuesFor({ map: [] })).toEqual(['"map" must be a non-empty array of strings']);
+    expect(issuesFor({ map: ['#######', '#..x..#', ...SMALL.map.slice(2)] })).toEqual([
+      "Unknown tile 'x' at (3, 1)",
+    ]);
+  });
+
+  it('rejects maps larger than the field', () => {
+    const row = `#${'.'.repeat(28)}#`;
+    const map = [row.replace(/\./g, '#'), ...Array.from({ length: 28 }, () => row), row.replace(/\./g, '#')];
+    expect(issuesFor({ map })).toEqual(['Map is 30×30 tiles, the field fits at most 20×20']);
+  });
+
+  it('reports every spawn and speed problem at once', () => {
+    expect(
+      issuesFor({
+        pacman: { col: 0, row: 0 },
+        ghostHouse: [{ col: 9, row: 9 }],
+        speeds: { pacman: -1, ghost: 11 },
+      })
+    ).toEqual([
+      'Pac-Man spawn (0, 0) is inside a wall',
+      'Ghost house tile (9, 9) is outside the map',
+      'speeds.pacman must be a number between 0 and 10',
+      'speeds.ghost must be a number between 0 and 10',
+    ]);
+  });
+
+  it('reports levels that cannot be played', () => {
+    expect(issuesFor({ map: SMALL.map.map((r) => r.replace(/[.o]/g, ' ')) })).toEqual([
+      'Level has no pellets to eat',
+    ]);
+    // Wall Pac-Man into the bottom corridor
+    expect(issuesFor({ map: ['#######', '#.....#', '#######', '#.. ..#', '#######'] })).toEqual([
+      "5 pellet(s) can't be reached from Pac-Man's spawn, e.g. (1, 1)",
+      'Ghost house tile (1, 1) is walled off from Pac-Man',
+    ]);
+  });
+});
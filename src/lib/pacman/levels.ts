@@ -0,0 +1,214 @@
+import { DIRECTION_VECTORS, MAX_MAZE_COLS, MAX_MAZE_ROWS, Maze, openDirections, Tile } from './maze';
+import classic from './levels/01-classic.json';
+import crossroads from './levels/02-crossroads.json';
+import gauntlet from './levels/03-gauntlet.json';
+
+/**
+ * Level files for the maze mode.
+ *
+ * A level is a JSON document:
+ *
+ *   {
+ *     "format": 1,
+ *     "name": "Classic",
+ *     "map": [                      // one string per row, all the same width, at most 20×20
+ *       "#####",                    //   #      wall
+ *       "#o. #",                    //   .      pellet
+ *       "#####"                     //   o      power pellet (apex power-up)
+ *     ],                            //   space  empty corridor
+ *     "pacman": { "col": 3, "row": 1 },
+ *     "ghostHouse": [{ "col": 8, "row": 9 }],   // ghosts start and respawn here
+ *     "speeds": { "pacman": 3.2, "ghost": 2.0 } // optional, px per 60 Hz frame
+ *   }
+ *
+ * Columns and rows are 0-based tile coordinates. `loadLevel()` checks a
+ * document and throws a LevelError listing every problem it found, e.g. a
+ * spawn inside a wall or pellets Pac-Man can never reach.
+ */
+
+export const LEVEL_FORMAT = 1;
+
+export const DEFAULT_PACMAN_SPEED = 3.2;
+export const DEFAULT_GHOST_SPEED = 2.0;
+const MAX_SPEED = 10;
+
+export type LevelFile = {
+  format: typeof LEVEL_FORMAT;
+  name: string;
+  map: string[];
+  pacman: Tile;
+  ghostHouse: Tile[];
+  speeds?: { pacman?: number; ghost?: number };
+};
+
+export type PacmanLevel = {
+  name: string;
+  maze: Maze;
+  pacmanSpeed: number;
+  ghostSpeed: number;
+};
+
+export class LevelError extends Error {
+  constructor(
+    readonly levelName: string,
+    readonly issues: string[]
+  ) {
+    super(`Invalid level "${levelName}":\n  - ${issues.join('\n  - ')}`);
+    this.name = 'LevelError';
+  }
+}
+
+const TILE_CHARS = new Set(['#', '.', 'o', ' ']);
+
+const isTile = (value: unknown): value is Tile =>
+  !!value &&
+  typeof value === 'object' &&
+  Number.isInteger((value as Tile).col) &&
+  Number.isInteger((value as Tile).row);
+
+const formatTile = (t: Tile) => `(${t.col}, ${t.row})`;
+
+/** Tiles reachable from `start` without crossing walls. */
+const reachableFrom = (maze: Maze, start: Tile) => {
+  const key = (t: Tile) => t.row * maze.cols + t.col;
+  const seen = new Set([key(start)]);
+  const queue = [start];
+  while (queue.length) {
+    const tile = queue.shift()!;
+    for (const d of openDirections(maze, tile)) {
+      const next = { col: tile.col + DIRECTION_VECTORS[d].dc, row: tile.row + DIRECTION_VECTORS[d].dr };
+      if (!seen.has(key(next))) {
+        seen.add(key(next));
+        queue.push(next);
+      }
+    }
+  }
+  return (t: Tile) => seen.has(key(t));
+};
+
+/** Validate a parsed level document and build the playable maze from it. */
+export function loadLevel(data: unknown): PacmanLevel {
+  if (!data || typeof data !== 'object') throw new LevelError('?', ['Level must be a JSON object']);
+  const file = data as Partial<Record<keyof LevelFile, unknown>>;
+  const name = typeof file.name === 'string' && file.name.trim() ? file.name.trim() : 'Untitled';
+  const issues: string[] = [];
+  const fail = () => new LevelError(name, issues);
+
+  if (file.format !== LEVEL_FORMAT) issues.push(`"format" must be ${LEVEL_FORMAT}`);
+
+  // Map shape and characters
+  const map = file.map;
+  if (!Array.isArray(map) || map.length === 0 || !map.every((r) => typeof r === 'string')) {
+    issues.push('"map" must be a non-empty array of strings');
+    throw fail();
+  }
+  const cols = map[0].length;
+  map.forEach((line: string, row) => {
+    if (line.length !== cols) issues.push(`Map row ${row} is ${line.length} tiles wide, expected ${cols}`);
+    [...line].forEach((ch, col) => {
+      if (!TILE_CHARS.has(ch)) issues.push(`Unknown tile '${ch}' at ${formatTile({ col, row })}`);
+    });
+  });
+  if (cols > MAX_MAZE_COLS || map.length > MAX_MAZE_ROWS) {
+    issues.push(`Map is ${cols}×${map.length} tiles, the field fits at most ${MAX_MAZE_COLS}×${MAX_MAZE_ROWS}`);
+  }
+  if (issues.length) throw fail();
+
+  const maze: Maze = {
+    cols,
+    rows: map.length,
+    walls: [],
+    pellets: [],
+    powerPellets: [],
+    pacmanSpawn: { col: 0, row: 0 },
+    ghostHouse: [],
+  };
+  map.forEach((line: string, row) => {
+    [...line].forEach((ch, col) => {
+      maze.walls.push(ch === '#');
+      if (ch === '.') maze.pellets.push({ col, row });
+      if (ch === 'o') maze.powerPellets.push({ col, row });
+    });
+  });
+
+  const inBounds = (t: Tile) => t.col >= 0 && t.row >= 0 && t.col < maze.cols && t.row < maze.rows;
+  const isWallTile = (t: Tile) => maze.walls[t.row * maze.cols + t.col];
+
+  // Spawns
+  if (!isTile(file.pacman)) {
+    issues.push('"pacman" must be a { col, row } tile');
+  } else if (!inBounds(file.pacman)) {
+    issues.push(`Pac-Man spawn ${formatTile(file.pacman)} is outside the map`);
+  } else if (isWallTile(file.pacman)) {
+    issues.push(`Pac-Man spawn ${formatTile(file.pacman)} is inside a wall`);
+  } else {
+    maze.pacmanSpawn = file.pacman;
+  }
+
+  if (!Array.isArray(file.ghostHouse) || file.ghostHouse.length === 0) {
+    issues.push('"ghostHouse" must list at least one tile');
+  } else {
+    file.ghostHouse.forEach((t: unknown, i) => {
+      if (!isTile(t)) issues.push(`ghostHouse[${i}] must be a { col, row } tile`);
+      else if (!inBounds(t)) issues.push(`Ghost house tile ${formatTile(t)} is outside the map`);
+      else if (isWallTile(t)) issues.push(`Ghost house tile ${formatTile(t)} is inside a wall`);
+      else maze.ghostHouse.push(t);
+    });
+  }
+
+  // Speeds
+  const speeds = (file.speeds ?? {}) as Record<string, unknown>;
+  const speed = (key: 'pacman' | 'ghost', fallback: number) => {
+    const value = speeds[key] ?? fallback;
+    if (typeof value !== 'number' || !(value > 0) || value > MAX_SPEED) {
+      issues.push(`speeds.${key} must be a number between 0 and ${MAX_SPEED}`);
+      return fallback;
+    }
+    return value;
+  };
+  const pacmanSpeed = speed('pacman', DEFAULT_PACMAN_SPEED);
+  const ghostSpeed = speed('ghost', DEFAULT_GHOST_SPEED);
+
+  if (issues.length) throw fail();
+
+  // Playability
+  if (maze.pellets.length + maze.powerPellets.length === 0) {
+    issues.push('Level has no pellets to eat');
+  }
+  const reachable = reachableFrom(maze, maze.pacmanSpawn);
+  const stranded = [...maze.pellets, ...maze.powerPellets].filter((t) => !reachable(t));
+  if (stranded.length) {
+    issues.push(
+      `${stranded.length} pellet(s) can't be reached from Pac-Man's spawn, e.g. ${formatTile(stranded[0])}`
+    );
+  }
+  const lockedIn = maze.ghostHouse.filter((t) => !reachable(t));
+  if (lockedIn.length) {
+    issues.push(`Ghost house tile ${formatTile(lockedIn[0])} is walled off from Pac-Man`);
+  }
+  if (issues.length) throw fail();
+
+  return { name, maze, pacmanSpeed, ghostSpeed };
+}
+
+/** Inverse of loadLevel(): the document to save for a level. */
+export function serializeLevel(level: PacmanLevel): LevelFile {
+  const { maze } = level;
+  const map = Array.from({ length: maze.rows }, (_, row) =>
+    Array.from({ length: maze.cols }, (_, col): string => (maze.walls[row * maze.cols + col] ? '#' : ' '))
+  );
+  maze.pellets.forEach((t) => (map[t.row][t.col] = '.'));
+  maze.powerPellets.forEach((t) => (map[t.row][t.col] = 'o'));
+
+  return {
+    format: LEVEL_FORMAT,
+    name: level.name,
+    map: map.map((r) => r.join('')),
+    pacman: maze.pacmanSpawn,
+    ghostHouse: maze.ghostHouse,
+    speeds: { pacman: level.pacmanSpeed, ghost: level.ghostSpeed },
+  };
+}
+
+/** Levels shipped with the game, played in this order and then from the top again. */
+export const BUNDLED_LEVELS: readonly PacmanLevel[] = [classic, crossroads, gauntlet].map(loadLevel);
@@ -0,0 +1,122 @@
+import type { Direction } from './engine';
+
+/**
+ * Tile grid for the maze mode and the helpers actors use to move on it.
+ *
+ * Actors in this mode are one tile big and move from tile centre to tile
+ * centre; positions stay in pixels (top-left corner) like the classic mode.
+ * Mazes come from level files, see ./levels.
+ */
+
+export const TILE_SIZE = 25;
+/** The play field is this many tiles across and down, so no maze can be bigger. */
+export const MAX_MAZE_COLS = 20;
+export const MAX_MAZE_ROWS = 20;
+
+/** Size of the play field in px, for both modes. */
+export const FIELD_WIDTH = MAX_MAZE_COLS * TILE_SIZE; // 500
+export const FIELD_HEIGHT = MAX_MAZE_ROWS * TILE_SIZE;
+
+export type Tile = { col: number; row: number };
+
+export type Maze = {
+  cols: number;
+  rows: number;
+  /** Row-major, true for wall tiles. */
+  walls: boolean[];
+  pellets: Tile[];
+  powerPellets: Tile[];
+  pacmanSpawn: Tile;
+  ghostHouse: Tile[];
+};
+
+/* ---------- Grid helpers ----------- */
+
+export const DIRECTIONS: readonly Direction[] = ['up', 'left', 'down', 'right'];
+
+export const DIRECTION_VECTORS: Record<Direction, { dc: number; dr: number }> = {
+  up: { dc: 0, dr: -1 },
+  down: { dc: 0, dr: 1 },
+  left: { dc: -1, dr: 0 },
+  right: { dc: 1, dr: 0 },
+};
+
+export const opposite = (dir: Direction): Direction =>
+  ({ up: 'down', down: 'up', left: 'right', right: 'left' } as const)[dir];
+
+/** Anything outside the map counts as wall. */
+export const isWall = (maze: Maze, col: number, row: number) =>
+  col < 0 || row < 0 || col >= maze.cols || row >= maze.rows || maze.walls[row * maze.cols + col];
+
+export const canMove = (maze: Maze, tile: Tile, dir: Direction) => {
+  const v = DIRECTION_VECTORS[dir];
+  return !isWall(maze, tile.col + v.dc, tile.row + v.dr);
+};
+
+export const openDirections = (maze: Maze, tile: Tile) => DIRECTIONS.filter((d) => canMove(maze, tile, d));
+
+/** Tile whose centre is closest to an actor at pixel position (x, y). */
+export const tileAt = (x: number, y: number): Tile => ({
+  col: Math.round(x / TILE_SIZE),
+  row: Math.round(y / TILE_SIZE),
+});
+
+export const tileToPoint = (tile: Tile) => ({ x: tile.col * TILE_SIZE, y: tile.row * TILE_SIZE });
+
+export const sameTile = (a: Tile, b: Tile) => a.col === b.col && a.row === b.row;
+
+const EPSILON = 1e-6;
+
+const isAligned = (x: number, y: number) =>
+  Math.abs(x - Math.round(x / TILE_SIZE) * TILE_SIZE) < EPSILON &&
+  Math.abs(y - Math.round(y / TILE_SIZE) * TILE_SIZE) < EPSILON;
+
+export type GridMover = { x: number; y: number; dir: Direction | null };
+
+/**
+ * Move a grid-bound actor `distance` px along the corridors. Every time it
+ * reaches a tile centre, `choose` decides where to go next; returning null
+ * (or a blocked direction) stops it on that tile.
+ */
+export function moveOnGrid(
+  maze: Maze,
+  mover: GridMover,
+  distance: number,
+  choose: (tile: Tile, dir: Direction | null) => Direction | null
+): GridMover {
+  let { x, y, dir } = mover;
+  let remaining = distance;
+
+  while (remaining > EPSILON) {
+    if (isAligned(x, y)) {
+      const tile = tileAt(x, y);
+      ({ x, y } = tileToPoint(tile));
+      const next = choose(tile, dir);
+      if (!next || !canMove(maze, tile, next)) return { x, y, dir: null };
+      dir = next;
+    }
+    if (!dir) break;
+
+    // Distance to the next tile centre along the current direction
+    const v = DIRECTION_VECTORS[dir];
+    const along = v.dc !== 0 ? x : y;
+    const past = along - Math.floor(along / TILE_SIZE) * TILE_SIZE;
+    const forward = v.dc + v.dr > 0;
+    const toNext = forward ? TILE_SIZE - past : past || TILE_SIZE;
+
+    if (remaining >= toNext - EPSILON) {
+      // Land exactly on the centre so rounding never drifts off the grid
+      const target = forward
+        ? Math.floor(along / TILE_SIZE) * TILE_SIZE + TILE_SIZE
+        : Math.ceil(along / TILE_SIZE) * TILE_SIZE - TILE_SIZE;
+      if (v.dc !== 0) x = target;
+      else y = target;
+      remaining -= toNext;
+    } else {
+      x += v.dc * remaining;
+      y += v.dr * remaining;
+      remaining = 0;
+    }
+  }
+  return { x, y, dir };
+}
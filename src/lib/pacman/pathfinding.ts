@@ -0,0 +1,168 @@
+import type { Direction, Point, Rect } from './engine';
+import { DIRECTION_VECTORS, DIRECTIONS, Maze, Tile, TILE_SIZE } from './maze';
+
+/**
+ * Pathfinding for ghosts (or anything else that needs to get somewhere).
+ *
+ * The field is reduced to a navigation grid of open/blocked cells – the tile
+ * maze as it is, or the classic field sampled every few pixels at the
+ * positions an actor of a given size fits without touching a barrier. A
+ * pathfinder answers "which way next?" from BFS distance fields: one field
+ * per target cell, cached, so all ghosts chasing Pac-Man share one search
+ * that is only redone once Pac-Man moves onto another cell.
+ */
+
+export type NavGrid = {
+  cols: number;
+  rows: number;
+  /** Pixel distance between neighbouring cells. */
+  cellSize: number;
+  /** Row-major, true where the actor can't be. */
+  blocked: boolean[];
+};
+
+export function navGridFromMaze(maze: Maze): NavGrid {
+  return { cols: maze.cols, rows: maze.rows, cellSize: TILE_SIZE, blocked: maze.walls };
+}
+
+/**
+ * Cells are actor positions (top-left) every `cellSize` px that clear all
+ * barriers – with half a cell of slack all round, so an actor anywhere
+ * between two open neighbouring cells is clear as well.
+ */
+export function navGridFromBarriers(
+  barriers: readonly Rect[],
+  width: number,
+  height: number,
+  actorSize: number,
+  cellSize: number
+): NavGrid {
+  const cols = Math.floor((width - actorSize) / cellSize) + 1;
+  const rows = Math.floor((height - actorSize) / cellSize) + 1;
+  const slack = cellSize / 2;
+  const size = actorSize + 2 * slack;
+  const blocked = Array.from({ length: cols * rows }, (_, i) => {
+    const x = (i % cols) * cellSize - slack;
+    const y = Math.floor(i / cols) * cellSize - slack;
+    return barriers.some((b) => x < b.x + b.w && x + size > b.x && y < b.y + b.h && y + size > b.y);
+  });
+  return { cols, rows, cellSize, blocked };
+}
+
+const neighbour = (t: Tile, dir: Direction): Tile => ({
+  col: t.col + DIRECTION_VECTORS[dir].dc,
+  row: t.row + DIRECTION_VECTORS[dir].dr,
+});
+
+const inGrid = (grid: NavGrid, t: Tile) => t.col >= 0 && t.row >= 0 && t.col < grid.cols && t.row < grid.rows;
+
+export const isOpen = (grid: NavGrid, t: Tile) => inGrid(grid, t) && !grid.blocked[t.row * grid.cols + t.col];
+
+/** Closest open cell to `t` (itself if open); off-grid tiles are pulled onto the edge first. */
+export function nearestOpenCell(grid: NavGrid, t: Tile): Tile {
+  const start = {
+    col: Math.min(Math.max(t.col, 0), grid.cols - 1),
+    row: Math.min(Math.max(t.row, 0), grid.rows - 1),
+  };
+  if (isOpen(grid, start)) return start;
+
+  const seen = new Set([start.row * grid.cols + start.col]);
+  const queue = [start];
+  for (let i = 0; i < queue.length; i++) {
+    if (isOpen(grid, queue[i])) return queue[i];
+    for (const d of DIRECTIONS) {
+      const n = neighbour(queue[i], d);
+      const key = n.row * grid.cols + n.col;
+      if (inGrid(grid, n) && !seen.has(key)) {
+        seen.add(key);
+        queue.push(n);
+      }
+    }
+  }
+  return start; // nothing open at all
+}
+
+/** Open cell for an actor at pixel position `p` (top-left). */
+export const cellAt = (grid: NavGrid, p: Point): Tile =>
+  nearestOpenCell(grid, { col: Math.round(p.x / grid.cellSize), row: Math.round(p.y / grid.cellSize) });
+
+export const cellToPoint = (grid: NavGrid, t: Tile): Point => ({ x: t.col * grid.cellSize, y: t.row * grid.cellSize });
+
+export type Pathfinder = {
+  grid: NavGrid;
+  /** Steps from `from` to `to`; Infinity if there's no way through. */
+  distance(from: Tile, to: Tile): number;
+  /** First move on a shortest path, null when already there or cut off. */
+  nextStep(from: Tile, to: Tile): Direction | null;
+  /** Cells after `from` up to and including `to`, empty if unreachable. */
+  path(from: Tile, to: Tile): Tile[];
+};
+
+const DEFAULT_CACHE_SIZE = 32;
+
+/** Pathfinder over `grid`, keeping the last `cacheSize` distance fields. */
+export function createPathfinder(grid: NavGrid, cacheSize = DEFAULT_CACHE_SIZE): Pathfinder {
+  const index = (t: Tile) => t.row * grid.cols + t.col;
+  const fields = new Map<number, number[]>();
+
+  // BFS outwards from the target: every open cell's step count to it
+  const fieldTo = (target: Tile): number[] => {
+    const goal = nearestOpenCell(grid, target);
+    const key = index(goal);
+    const cached = fields.get(key);
+    if (cached) {
+      // Most recently used goes to the back
+      fields.delete(key);
+      fields.set(key, cached);
+      return cached;
+    }
+
+    const dist = new Array<number>(grid.cols * grid.rows).fill(Infinity);
+    dist[key] = 0;
+    const queue = [goal];
+    for (let i = 0; i < queue.length; i++) {
+      const cell = queue[i];
+      for (const d of DIRECTIONS) {
+        const n = neighbour(cell, d);
+        if (isOpen(grid, n) && dist[index(n)] === Infinity) {
+          dist[index(n)] = dist[index(cell)] + 1;
+          queue.push(n);
+        }
+      }
+    }
+
+    fields.set(key, dist);
+    if (fields.size > cacheSize) fields.delete(fields.keys().next().value!);
+    return dist;
+  };
+
+  const nextStep = (from: Tile, to: Tile): Direction | null => {
+    const dist = fieldTo(to);
+    const start = nearestOpenCell(grid, from);
+    let best: Direction | null = null;
+    let bestDist = dist[index(start)];
+    for (const d of DIRECTIONS) {
+      const n = neighbour(start, d);
+      if (isOpen(grid, n) && dist[index(n)] < bestDist) {
+        best = d;
+        bestDist = dist[index(n)];
+      }
+    }
+    return best;
+  };
+
+  return {
+    grid,
+    distance: (from, to) => fieldTo(to)[index(nearestOpenCell(grid, from))],
+    nextStep,
+    path(from, to) {
+      const cells: Tile[] = [];
+      let cell = nearestOpenCell(grid, from);
+      for (let dir = nextStep(cell, to); dir; dir = nextStep(cell, to)) {
+        cell = neighbour(cell, dir);
+        cells.push(cell);
+      }
+      return cells;
+    },
+  };
+}
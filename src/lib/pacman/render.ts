@@ -0,0 +1,294 @@
+import {
+  APEX_SIZE,
+  BARRIERS,
+  CHERRY_SIZE,
+  FIELD_HEIGHT,
+  FIELD_WIDTH,
+  Ghost,
+  ghostSize,
+  isGhostVulnerable,
+  isHunterGhost,
+  isPlayerInPlay,
+  pacSize,
+  PacmanPlayer,
+  PacmanState,
+  Point,
+} from './engine';
+import type { GhostPersonality } from './ghostAI';
+import { isWall, Maze, TILE_SIZE } from './maze';
+import { animationFrame, buildSpriteSheet, drawSpriteFrame, SpriteSheet } from '@/lib/effects';
+import { lerp } from '@/lib/loop';
+
+/** Sprites loaded from the public folder; each may still be loading. */
+export type PacmanSprites = {
+  pacman: HTMLImageElement;
+  ghost: HTMLImageElement;
+  ghostWhite: HTMLImageElement;
+  cherry: HTMLImageElement;
+  apex: HTMLImageElement;
+};
+
+const loadImage = (src: string) => {
+  const img = new Image();
+  img.src = src;
+  return img;
+};
+
+export const loadPacmanSprites = (): PacmanSprites => ({
+  pacman: loadImage('/Pacman.svg'),
+  ghost: loadImage('/ghost.svg'),
+  ghostWhite: loadImage('/ghost_white.svg'),
+  cherry: loadImage('/cherry.svg'),
+  apex: loadImage('/apex.png'),
+});
+
+// Moves longer than this between two steps are teleports (e.g. an eaten ghost) and are not smoothed
+const TELEPORT_DISTANCE = 40;
+
+const lerpPoint = <T extends Point>(prev: Point | undefined, next: T, alpha: number): T => {
+  if (!prev || Math.hypot(next.x - prev.x, next.y - prev.y) > TELEPORT_DISTANCE) return next;
+  return { ...next, x: lerp(prev.x, next.x, alpha), y: lerp(prev.y, next.y, alpha) };
+};
+
+/** State for drawing `alpha` of the way from `prev` to `next`; only actor positions are blended. */
+export const interpolatePacman = (prev: PacmanState, next: PacmanState, alpha: number): PacmanState => ({
+  ...next,
+  players: next.players.map((p, i) => lerpPoint(prev.players[i], p, alpha)),
+  ghosts: next.ghosts.map((g, i) => lerpPoint(prev.ghosts[i], g, alpha)),
+});
+
+const drawApex = (
+  ctx: CanvasRenderingContext2D,
+  sprites: PacmanSprites | null,
+  x: number,
+  y: number,
+  size: number
+) => {
+  if (sprites?.apex.complete) {
+    ctx.drawImage(sprites.apex, x, y, size, size);
+  } else {
+    ctx.fillStyle = '#FFD700';
+    ctx.beginPath();
+    ctx.arc(x + size / 2, y + size / 2, size / 2, 0, Math.PI * 2);
+    ctx.fill();
+  }
+};
+
+// One sprite, tinted per personality (fallback colours for before it loads)
+const GHOST_TINTS: Record<GhostPersonality, { hue: number; colour: string }> = {
+  chaser: { hue: 0, colour: '#ff001b' },
+  ambusher: { hue: 300, colour: '#ffb8ff' },
+  flanker: { hue: 180, colour: '#00ffff' },
+  shy: { hue: 30, colour: '#ffb852' },
+};
+
+/** Just the eyes of an eaten ghost, looking where it's going. */
+const drawGhostEyes = (ctx: CanvasRenderingContext2D, g: Ghost, size: number) => {
+  const len = Math.hypot(g.dx, g.dy) || 1;
+  const lookX = (g.dx / len) * size * 0.06;
+  const lookY = (g.dy / len) * size * 0.06;
+  [0.32, 0.68].forEach((fx) => {
+    const cx = g.x + size * fx;
+    const cy = g.y + size * 0.45;
+    ctx.fillStyle = '#fff';
+    ctx.beginPath();
+    ctx.arc(cx, cy, size * 0.14, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.fillStyle = '#1f3fff';
+    ctx.beginPath();
+    ctx.arc(cx + lookX, cy + lookY, size * 0.07, 0, Math.PI * 2);
+    ctx.fill();
+  });
+};
+
+/** Marks the ghost player 2 steers in a hunt, so they can find it. */
+const drawHunterRing = (ctx: CanvasRenderingContext2D, g: Ghost, size: number) => {
+  ctx.strokeStyle = PLAYER_TWO_TINT.colour;
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  ctx.arc(g.x + size / 2, g.y + size / 2, size * 0.7, 0, Math.PI * 2);
+  ctx.stroke();
+};
+
+/* ---------- Pac-Man ----------- */
+
+const PAC_COLOUR = '#ffd65b';
+/** Player 2 is the same sprite turned blue-green, so the two can be told apart. */
+const PLAYER_TWO_TINT = { hue: 150, colour: '#5bffc8' };
+/** Half-angle of the mouth per chomp frame, as a fraction of π; frame 0 is the sprite as drawn. */
+const MOUTH_FRAMES = [0.225, 0.14, 0.04, 0.14];
+const CHOMP_FPS = 14;
+/** Chomp frames are drawn this big and scaled down, so they stay sharp on high-DPI screens. */
+const SHEET_FRAME_PX = 128;
+
+// Where the circle sits in /Pacman.svg (1200×1200 viewBox)
+const SVG_CENTRE_X = 668.67 / 1200;
+const SVG_RADIUS = 570 / 1200;
+
+const chompSheets = new WeakMap<HTMLImageElement, SpriteSheet | null>();
+
+/**
+ * Chomp animation built from the Pac-Man sprite: its mouth is open as drawn,
+ * and the later frames close it by filling in wedges of the body colour.
+ */
+const chompSheet = (sprite: HTMLImageElement) => {
+  if (!chompSheets.has(sprite)) {
+    const size = SHEET_FRAME_PX;
+    const open = MOUTH_FRAMES[0] * Math.PI;
+    chompSheets.set(
+      sprite,
+      buildSpriteSheet(MOUTH_FRAMES.length, size, (ctx, frame) => {
+        ctx.drawImage(sprite, 0, 0, size, size);
+        const mouth = MOUTH_FRAMES[frame] * Math.PI;
+        if (mouth >= open) return;
+        const cx = size * SVG_CENTRE_X;
+        const cy = size / 2;
+        ctx.fillStyle = PAC_COLOUR;
+        for (const [from, to] of [
+          [mouth, open + 0.02],
+          [-open - 0.02, -mouth],
+        ]) {
+          ctx.beginPath();
+          ctx.moveTo(cx, cy);
+          ctx.arc(cx, cy, size * SVG_RADIUS, from, to);
+          ctx.closePath();
+          ctx.fill();
+        }
+      })
+    );
+  }
+  return chompSheets.get(sprite) ?? null;
+};
+
+/** Pac-Man facing where it's going and chomping while it moves. */
+const drawPacman = (
+  ctx: CanvasRenderingContext2D,
+  state: PacmanState,
+  pacman: PacmanPlayer,
+  playerTwo: boolean,
+  sprites: PacmanSprites | null
+) => {
+  const size = pacSize(state);
+  const moving = pacman.dx !== 0 || pacman.dy !== 0;
+  const frame = moving ? animationFrame(state.time, MOUTH_FRAMES.length, CHOMP_FPS) : 0;
+  const angle = moving ? Math.atan2(pacman.dy, pacman.dx) : 0;
+
+  ctx.save();
+  ctx.translate(pacman.x + size / 2, pacman.y + size / 2);
+  ctx.rotate(angle);
+  // Heading left would put the eye underneath; mirror instead
+  if (Math.abs(angle) > Math.PI / 2) ctx.scale(1, -1);
+
+  const sheet = sprites?.pacman.complete ? chompSheet(sprites.pacman) : null;
+  if (sheet) {
+    if (playerTwo) ctx.filter = `hue-rotate(${PLAYER_TWO_TINT.hue}deg)`;
+    drawSpriteFrame(ctx, sheet, frame, -size / 2, -size / 2, size, size);
+  } else {
+    const mouth = MOUTH_FRAMES[frame] * Math.PI;
+    ctx.fillStyle = playerTwo ? PLAYER_TWO_TINT.colour : PAC_COLOUR;
+    ctx.beginPath();
+    ctx.arc(0, 0, size / 2, mouth, 2 * Math.PI - mouth);
+    ctx.lineTo(0, 0);
+    ctx.fill();
+  }
+  ctx.restore();
+};
+
+/** Pellets and power pellets of the tile maze. */
+const drawPellets = (ctx: CanvasRenderingContext2D, state: PacmanState, sprites: PacmanSprites | null) => {
+  ctx.fillStyle = '#ffd65b';
+  state.pellets.forEach((t) => {
+    ctx.beginPath();
+    ctx.arc(t.col * TILE_SIZE + TILE_SIZE / 2, t.row * TILE_SIZE + TILE_SIZE / 2, 3, 0, Math.PI * 2);
+    ctx.fill();
+  });
+
+  // Power pellets pulse so they read as special
+  const size = TILE_SIZE * (0.7 + 0.1 * Math.sin(state.time / 150));
+  state.powerPellets.forEach((t) => {
+    const offset = (TILE_SIZE - size) / 2;
+    drawApex(ctx, sprites, t.col * TILE_SIZE + offset, t.row * TILE_SIZE + offset, size);
+  });
+};
+
+const drawMazeWalls = (ctx: CanvasRenderingContext2D, maze: Maze) => {
+  ctx.fillStyle = '#0033cc';
+  for (let row = 0; row < maze.rows; row++) {
+    for (let col = 0; col < maze.cols; col++) {
+      if (isWall(maze, col, row)) ctx.fillRect(col * TILE_SIZE, row * TILE_SIZE, TILE_SIZE, TILE_SIZE);
+    }
+  }
+};
+
+/** Draw one frame of `state`. Falls back to plain shapes until sprites have loaded. */
+export function renderPacman(
+  ctx: CanvasRenderingContext2D,
+  state: PacmanState,
+  sprites: PacmanSprites | null
+) {
+  const pSize = pacSize(state);
+  const gSize = ghostSize(state);
+
+  // Background
+  ctx.fillStyle = '#000';
+  ctx.fillRect(0, 0, FIELD_WIDTH, FIELD_HEIGHT);
+
+  // Cherries (classic) or pellets (maze)
+  state.cherries.forEach((cherry) => {
+    if (sprites?.cherry.complete) {
+      ctx.drawImage(sprites.cherry, cherry.x, cherry.y, CHERRY_SIZE, CHERRY_SIZE);
+    } else {
+      ctx.fillStyle = '#ff001b';
+      ctx.beginPath();
+      ctx.arc(cherry.x + CHERRY_SIZE / 2, cherry.y + CHERRY_SIZE / 2, CHERRY_SIZE / 2, 0, Math.PI * 2);
+      ctx.fill();
+    }
+  });
+  if (state.maze) drawPellets(ctx, state, sprites);
+
+  // Ghosts (eaten ones are just eyes); a player's ghost is ringed
+  state.ghosts.forEach((g, i) => {
+    if (isHunterGhost(state, i)) drawHunterRing(ctx, g, gSize);
+    if (g.eaten) {
+      drawGhostEyes(ctx, g, gSize);
+      return;
+    }
+
+    const isVulnerable = isGhostVulnerable(state, g);
+    const tint = GHOST_TINTS[g.personality];
+    const imgToUse = isVulnerable && sprites?.ghostWhite.complete ? sprites.ghostWhite : sprites?.ghost;
+    if (imgToUse?.complete) {
+      if (!isVulnerable && tint.hue) ctx.filter = `hue-rotate(${tint.hue}deg)`;
+      ctx.drawImage(imgToUse, g.x, g.y, gSize, gSize);
+      ctx.filter = 'none';
+    } else {
+      ctx.fillStyle = isVulnerable ? '#ffffff' : tint.colour;
+      ctx.fillRect(g.x, g.y, gSize, gSize);
+    }
+  });
+
+  // Pac-Men, blinking while they can't be caught (solid before the round starts)
+  state.players.forEach((p, i) => {
+    if (!isPlayerInPlay(state, p)) return;
+    if (state.time < p.invulnerableUntil && Math.floor(state.time / 150) % 2 === 1) {
+      ctx.globalAlpha = 0.35;
+    }
+    drawPacman(ctx, state, p, i === 1, sprites);
+    ctx.globalAlpha = 1;
+  });
+
+  // Walls
+  if (state.maze) {
+    drawMazeWalls(ctx, state.maze);
+  } else {
+    ctx.fillStyle = '#0033cc';
+    BARRIERS.forEach((b) => {
+      ctx.fillRect(b.x, b.y, b.w, b.h);
+    });
+  }
+
+  // Apex power-up
+  if (state.apex) {
+    drawApex(ctx, sprites, state.apex.x, state.apex.y, APEX_SIZE);
+  }
+}
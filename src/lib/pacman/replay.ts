@@ -0,0 +1,18 @@
+import { STEP_MS } from '@/lib/loop';
+import type { ReplaySim } from '@/lib/replay';
+import { createPacmanState, Direction, PacmanState, step } from './engine';
+
+/** One-letter replay codes for direction changes. */
+export const DIRECTION_CODES: Record<Direction, string> = { up: 'u', down: 'd', left: 'l', right: 'r' };
+
+const CODE_DIRECTIONS = Object.fromEntries(
+  Object.entries(DIRECTION_CODES).map(([dir, code]) => [code, dir as Direction])
+);
+
+/** Replays always run the bundled levels; editor play-tests aren't recorded. */
+export const pacmanReplaySim: ReplaySim<PacmanState> = {
+  create: (replay) => createPacmanState(replay.seed, { mode: replay.mode === 'maze' ? 'maze' : 'classic' }),
+  step: (state, code) => step(state, { direction: code ? CODE_DIRECTIONS[code] : null }, STEP_MS),
+  isOver: (state) => state.gameOver,
+  score: (state) => state.score,
+};
@@ -0,0 +1,17 @@
+import { soundCues } from '@/lib/audio/engine';
+import type { Emitter } from '@/lib/emitter';
+import type { PacmanEvents } from './events';
+
+/** Cue a sound for each game event; returns the function that stops it. */
+export function connectPacmanSounds(events: Emitter<PacmanEvents>) {
+  const offs = [
+    events.on('cherryEaten', () => soundCues.emit('sound', 'waka')),
+    events.on('pelletEaten', ({ power }) => soundCues.emit('sound', power ? 'powerUp' : 'waka')),
+    events.on('apexCollected', () => soundCues.emit('sound', 'powerUp')),
+    events.on('ghostEaten', () => soundCues.emit('sound', 'ghostEaten')),
+    events.on('playerDied', () => soundCues.emit('sound', 'death')),
+    events.on('extraLife', () => soundCues.emit('sound', 'extraLife')),
+    events.on('levelCleared', () => soundCues.emit('sound', 'levelUp')),
+  ];
+  return () => offs.forEach((off) => off());
+}
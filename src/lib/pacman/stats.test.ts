@@ -0,0 +1,49 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getUnlockedAchievements } from '@/lib/achievements';
+import { createEmitter } from '@/lib/emitter';
+import { createPacmanState, PacmanState } from './engine';
+import type { PacmanEvents } from './events';
+import { connectPacmanStats } from './stats';
+
+/** Just enough of localStorage for the stores. */
+const memoryStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+  };
+};
+
+describe('Pac-Man stats', () => {
+  let state: PacmanState;
+  let off: () => void;
+  const events = createEmitter<PacmanEvents>();
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.stubGlobal('window', { localStorage: memoryStorage() });
+    state = createPacmanState(1);
+    off = connectPacmanStats(events, () => state);
+  });
+
+  afterEach(() => {
+    off();
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it('unlocks cold turkey once two minutes pass without a power-up, not at the next pickup', () => {
+    events.emit('cherryEaten', { player: 0, at: { x: 0, y: 0 }, points: 1 });
+    state = { ...state, time: 2 * 60 * 1000 + 500 };
+    expect(getUnlockedAchievements()).toEqual({});
+
+    vi.advanceTimersByTime(1000);
+    expect(Object.keys(getUnlockedAchievements())).toEqual(['pacman-cold-turkey']);
+  });
+
+  it('measures nothing before the run starts', () => {
+    state = { ...state, time: 5 * 60 * 1000 };
+    vi.advanceTimersByTime(5000);
+    expect(getUnlockedAchievements()).toEqual({});
+  });
+});
@@ -0,0 +1,75 @@
+import type { Emitter } from '@/lib/emitter';
+import { createRunTracker, RunTracker } from '@/lib/stats';
+import type { PacmanState } from './engine';
+import type { PacmanEvents } from './events';
+
+/** How often a run's stretch without a power-up is measured between events. */
+const SAMPLE_MS = 1000;
+
+/**
+ * Count each game event towards the lifetime stats and achievements; returns
+ * the function that stops it. A run starts with its first event and is
+ * recorded when the last life is lost. `getState` gives the state the event
+ * came from, for the score and play time. The stretch without a power-up is
+ * also measured every SAMPLE_MS, so it can unlock an achievement while
+ * nothing is happening.
+ */
+export function connectPacmanStats(events: Emitter<PacmanEvents>, getState: () => PacmanState | null) {
+  let run: RunTracker | null = null;
+  // Ghosts eaten since the last power-up, and when the current stretch without one began
+  let ghostsThisPowerUp = 0;
+  let stretchFrom = 0;
+
+  const tracker = () => {
+    if (!run) {
+      run = createRunTracker('pacman');
+      ghostsThisPowerUp = 0;
+      stretchFrom = 0;
+    }
+    return run;
+  };
+  const time = () => getState()?.time ?? 0;
+  const survived = () => tracker().best('msWithoutPowerUp', time() - stretchFrom);
+  const poweredUp = () => {
+    survived();
+    tracker().count('powerUps');
+    ghostsThisPowerUp = 0;
+    stretchFrom = time();
+  };
+
+  // Game time stands still while paused, so this only moves the stretch on during play
+  const sampler = setInterval(() => {
+    if (run) survived();
+  }, SAMPLE_MS);
+
+  const offs = [
+    events.on('cherryEaten', () => {
+      tracker().count('cherries');
+      survived();
+    }),
+    events.on('pelletEaten', ({ power }) => {
+      tracker().count('pellets');
+      if (power) poweredUp();
+      else survived();
+    }),
+    events.on('apexCollected', poweredUp),
+    events.on('ghostEaten', () => {
+      tracker().count('ghosts');
+      ghostsThisPowerUp += 1;
+      tracker().best('ghostsPerPowerUp', ghostsThisPowerUp);
+    }),
+    events.on('levelCleared', ({ level }) => tracker().best('level', level + 1)),
+    events.on('playerDied', ({ livesLeft }) => {
+      // Losing a life ends the stretch too
+      survived();
+      stretchFrom = time();
+      if (livesLeft > 0) return;
+      tracker().finish(getState()?.score ?? 0, time());
+      run = null;
+    }),
+  ];
+  return () => {
+    clearInterval(sampler);
+    offs.forEach((off) => off());
+  };
+}
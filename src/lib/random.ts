@@ -0,0 +1,43 @@
+/**
+ * Seeded pseudo-random numbers for the game engines.
+ *
+ * The engines never call Math.random() directly: given the same seed they must
+ * produce the same spawns and the same ghost decisions, so runs can be replayed
+ * and rules can be exercised outside the browser.
+ */
+
+export interface Rng {
+  /** Next float in [0, 1), like Math.random(). */
+  next(): number;
+  /** Current internal state, so the generator can be stored in plain data and resumed. */
+  getState(): number;
+}
+
+/** Mulberry32 – tiny, fast and good enough for gameplay randomness. */
+export function createRng(seed: number): Rng {
+  let a = seed >>> 0;
+  return {
+    next() {
+      a = (a + 0x6d2b79f5) >>> 0;
+      let t = a;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    },
+    getState() {
+      return a;
+    },
+  };
+}
+
+/** A fresh seed for a new run (UI layer only – engines receive seeds). */
+export const randomSeed = () => Math.floor(Math.random() * 4294967296);
+
+/** The same seed for everyone on the same UTC day (FNV-1a of "YYYY-MM-DD"). */
+export function dailySeed(date = new Date()): number {
+  let hash = 0x811c9dc5;
+  for (const ch of date.toISOString().slice(0, 10)) {
+    hash = Math.imul(hash ^ ch.charCodeAt(0), 0x01000193);
+  }
+  return hash >>> 0;
+}
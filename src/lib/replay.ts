@@ -0,0 +1,214 @@
+import { STEP_MS } from '@/lib/loop';
+
+/**
+ * Replays: everything needed to play a round again, step for step.
+ *
+ * The engines are deterministic – same seed, same inputs on the same steps,
+ * same round – so a replay is just the seed, the start options and the
+ * inputs tagged with the fixed step (of STEP_MS) they were applied on. Each
+ * game maps its input to a one-letter code and provides a ReplaySim to run it
+ * (see lib/pacman/replay and lib/flappy/replay).
+ *
+ * Replay files are JSON with the inputs packed into one string of
+ * "<steps since previous input><code>" tokens, e.g. "12r40u3l":
+ *
+ *   { "format": 1, "game": "pacman", "seed": 123, "mode": "maze",
+ *     "steps": 5400, "score": 87, "inputs": "12r40u3l" }
+ */
+
+export const REPLAY_FORMAT = 1;
+
+export type ReplayInput = { step: number; code: string };
+
+export type Replay = {
+  format: typeof REPLAY_FORMAT;
+  /** Registry slug of the game. */
+  game: string;
+  seed: number;
+  /** Game-specific start option, e.g. the Pac-Man mode. */
+  mode?: string;
+  /** Length of the round in steps of STEP_MS. */
+  steps: number;
+  /** Final score as recorded, checked by verifyReplay(). */
+  score: number;
+  inputs: ReplayInput[];
+};
+
+export type ReplayFile = Omit<Replay, 'inputs'> & { inputs: string };
+
+export class ReplayError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReplayError';
+  }
+}
+
+/** How a game's engine is driven from a replay. */
+export type ReplaySim<S> = {
+  create(replay: Replay): S;
+  /** One STEP_MS step with the input recorded on it (null for none). */
+  step(state: S, code: string | null): S;
+  isOver(state: S): boolean;
+  score(state: S): number;
+};
+
+export const replayDurationMs = (replay: Replay) => replay.steps * STEP_MS;
+
+/* ---------- Recording ----------- */
+
+export type ReplayRecorder = {
+  /** Call once per simulation step, with the input applied on it. */
+  tick(code: string | null): void;
+  finish(score: number): Replay;
+};
+
+export function createReplayRecorder(game: string, seed: number, mode?: string): ReplayRecorder {
+  const inputs: ReplayInput[] = [];
+  let steps = 0;
+  return {
+    tick(code) {
+      if (code) inputs.push({ step: steps, code });
+      steps += 1;
+    },
+    finish: (score) => ({ format: REPLAY_FORMAT, game, seed, mode, steps, score, inputs: [...inputs] }),
+  };
+}
+
+/* ---------- Files ----------- */
+
+export function serializeReplay(replay: Replay): ReplayFile {
+  let last = 0;
+  const inputs = replay.inputs
+    .map(({ step, code }) => {
+      const token = `${step - last}${code}`;
+      last = step;
+      return token;
+    })
+    .join('');
+  return { ...replay, inputs };
+}
+
+const INPUT_TOKEN = /(\d+)([a-z])/g;
+const MAX_STEPS = (6 * 60 * 60 * 1000) / STEP_MS;
+
+/** Validate a parsed replay file; throws a ReplayError saying what's wrong. */
+export function parseReplay(data: unknown): Replay {
+  if (!data || typeof data !== 'object') throw new ReplayError('Replay must be a JSON object');
+  const file = data as Partial<Record<keyof ReplayFile, unknown>>;
+
+  if (file.format !== REPLAY_FORMAT) throw new ReplayError(`Unsupported replay format ${String(file.format)}`);
+  if (typeof file.game !== 'string' || !file.game) throw new ReplayError('Replay names no game');
+  if (!Number.isInteger(file.seed)) throw new ReplayError('Replay seed must be an integer');
+  if (file.mode !== undefined && typeof file.mode !== 'string') throw new ReplayError('Replay mode must be a string');
+  const steps = file.steps;
+  if (typeof steps !== 'number' || !Number.isInteger(steps) || steps < 0 || steps > MAX_STEPS) {
+    throw new ReplayError('Replay length is out of range');
+  }
+  if (typeof file.score !== 'number' || !Number.isInteger(file.score) || file.score < 0) {
+    throw new ReplayError('Replay score must be a whole number');
+  }
+  if (typeof file.inputs !== 'string' || file.inputs.replace(INPUT_TOKEN, '') !== '') {
+    throw new ReplayError('Replay inputs are malformed');
+  }
+
+  const inputs: ReplayInput[] = [];
+  let step = 0;
+  for (const [, delta, code] of file.inputs.matchAll(INPUT_TOKEN)) {
+    step += Number(delta);
+    if (step >= steps) throw new ReplayError('Replay has inputs after its end');
+    inputs.push({ step, code });
+  }
+
+  return {
+    format: REPLAY_FORMAT,
+    game: file.game,
+    seed: file.seed as number,
+    mode: file.mode,
+    steps,
+    score: file.score,
+    inputs,
+  };
+}
+
+const replayFileName = (replay: Replay) => `${replay.game}-replay-${replay.score}.json`;
+
+/* ---------- Playback ----------- */
+
+export type ReplayRunner<S> = {
+  replay: Replay;
+  sim: ReplaySim<S>;
+  /** State after `step` steps (0 is the start), using checkpoints so seeking back is cheap. */
+  stateAt(step: number): S;
+  /** Run step number `step` on `state` (the state after `step` steps). */
+  advance(state: S, step: number): S;
+};
+
+const CHECKPOINT_EVERY = 300;
+
+export function createReplayRunner<S>(replay: Replay, sim: ReplaySim<S>): ReplayRunner<S> {
+  const codes = new Map(replay.inputs.map((i) => [i.step, i.code]));
+  const checkpoints: S[] = [sim.create(replay)];
+  const advance = (state: S, step: number) => sim.step(state, codes.get(step) ?? null);
+
+  return {
+    replay,
+    sim,
+    advance,
+    stateAt(target) {
+      const step = Math.min(Math.max(Math.floor(target), 0), replay.steps);
+      const from = Math.min(Math.floor(step / CHECKPOINT_EVERY), checkpoints.length - 1);
+      let state = checkpoints[from];
+      for (let i = from * CHECKPOINT_EVERY; i < step; i++) {
+        state = advance(state, i);
+        const done = i + 1;
+        if (done === checkpoints.length * CHECKPOINT_EVERY) checkpoints.push(state);
+      }
+      return state;
+    },
+  };
+}
+
+/** Play the whole replay and check it ends the way it claims (also fills in all checkpoints). */
+export function verifyReplay<S>({ replay, sim, stateAt }: ReplayRunner<S>): boolean {
+  const end = stateAt(replay.steps);
+  return sim.isOver(end) && sim.score(end) === replay.score;
+}
+
+/** Steps verifyReplayGradually() runs per animation frame. */
+const VERIFY_STEPS_PER_FRAME = 3000;
+
+/**
+ * verifyReplay() spread over animation frames, so a long (or hostile) replay
+ * doesn't freeze the page. `onProgress` gets how many steps are checked – and
+ * cheap to seek to – so far, `onDone` the result. Returns a cancel function
+ * (browser only).
+ */
+export function verifyReplayGradually<S>(
+  runner: ReplayRunner<S>,
+  onProgress: (checkedSteps: number) => void,
+  onDone: (ok: boolean) => void
+) {
+  let checked = 0;
+  let frame = 0;
+  const tick = () => {
+    checked = Math.min(checked + VERIFY_STEPS_PER_FRAME, runner.replay.steps);
+    // Resumes from the last checkpoint, so each frame only runs the new steps
+    runner.stateAt(checked);
+    onProgress(checked);
+    if (checked < runner.replay.steps) frame = requestAnimationFrame(tick);
+    else onDone(verifyReplay(runner));
+  };
+  frame = requestAnimationFrame(tick);
+  return () => cancelAnimationFrame(frame);
+}
+
+/** Offer the replay as a .json download (browser only). */
+export function downloadReplay(replay: Replay) {
+  const blob = new Blob([JSON.stringify(serializeReplay(replay))], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = replayFileName(replay);
+  a.click();
+  URL.revokeObjectURL(url);
+}
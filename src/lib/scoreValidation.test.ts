@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { validateScoreSubmission } from './scoreValidation';
+
+const MINUTE = 60_000;
+
+const submit = (fields: Record<string, unknown>) =>
+  validateScoreSubmission({ game: 'pacman', name: 'Ada', score: 10, durationMs: MINUTE, ...fields });
+
+const errorOf = (fields: Record<string, unknown>) => {
+  const result = submit(fields);
+  return result.ok ? null : result.error;
+};
+
+describe('validateScoreSubmission', () => {
+  it('accepts a plausible score and trims the name', () => {
+    expect(submit({ name: '  Ada  ', mode: 'maze' })).toEqual({
+      ok: true,
+      value: { game: 'pacman', name: 'Ada', score: 10, durationMs: MINUTE, mode: 'maze' },
+    });
+  });
+
+  it('rejects bodies that are not objects', () => {
+    expect(validateScoreSubmission(null)).toEqual({ ok: false, error: 'Expected a JSON object' });
+    expect(validateScoreSubmission('pacman')).toEqual({ ok: false, error: 'Expected a JSON object' });
+  });
+
+  it('says what is wrong with each field', () => {
+    expect(errorOf({ game: 'tetris' })).toBe('Unknown game');
+    expect(errorOf({ game: 'toString' })).toBe('Unknown game');
+    expect(errorOf({ name: '   ' })).toMatch(/^Name must be/);
+    expect(errorOf({ name: 'x'.repeat(17) })).toMatch(/^Name must be/);
+    expect(errorOf({ score: -1 })).toBe('Score must be a non-negative integer');
+    expect(errorOf({ score: 1.5 })).toBe('Score must be a non-negative integer');
+    expect(errorOf({ durationMs: 0 })).toBe('Invalid duration');
+    expect(errorOf({ durationMs: 7 * 60 * MINUTE })).toBe('Invalid duration');
+    expect(errorOf({ mode: 'hard' })).toBe('Unknown mode');
+    expect(errorOf({ game: 'flappy', mode: 'maze' })).toBe('Unknown mode');
+  });
+
+  it('rejects Pac-Man scores the engine cannot reach in the time', () => {
+    expect(errorOf({ score: 100_000 })).toBe('Score is not possible in the reported time');
+    expect(errorOf({ score: 100_000, mode: 'maze' })).toBe('Score is not possible in the reported time');
+    expect(errorOf({ score: 500, durationMs: 1000 })).toBe('Score is not possible in the reported time');
+  });
+
+  it('allows longer Pac-Man runs higher scores', () => {
+    const score = 1500;
+    expect(submit({ score, durationMs: MINUTE }).ok).toBe(false);
+    expect(submit({ score, durationMs: 10 * MINUTE }).ok).toBe(true);
+  });
+
+  it('rejects Flappy pipes passed before the first pipe could arrive', () => {
+    expect(errorOf({ game: 'flappy', score: 1, durationMs: 100 })).toBe('Score is not possible in the reported time');
+    expect(submit({ game: 'flappy', score: 0, durationMs: 100 }).ok).toBe(true);
+    expect(submit({ game: 'flappy', score: 20, durationMs: 2 * MINUTE }).ok).toBe(true);
+    expect(errorOf({ game: 'flappy', score: 1000, durationMs: MINUTE })).toBe(
+      'Score is not possible in the reported time'
+    );
+  });
+});
@@ -0,0 +1,114 @@
+import { BIRD_X, FIELD_WIDTH as FLAPPY_WIDTH, PIPE_WIDTH } from '@/lib/flappy/engine';
+import { FLAPPY_MODES, FlappyMode, isFlappyMode, maxPipeSpeed } from '@/lib/flappy/modes';
+import { STEP_MS } from '@/lib/loop';
+import { CHERRY_SIZE, NUM_CHERRIES, PAC_SPEED } from '@/lib/pacman/engine';
+import { MAX_GHOSTS, MIN_APEX_RESPAWN_MS } from '@/lib/pacman/difficulty';
+import { BUNDLED_LEVELS } from '@/lib/pacman/levels';
+import { TILE_SIZE } from '@/lib/pacman/maze';
+
+/**
+ * Plausibility checks for submitted scores.
+ *
+ * This is not a replay verifier – it only rejects scores the engines could
+ * not physically produce in the reported time, using the same constants the
+ * engines run on. Bounds are deliberately generous.
+ */
+
+export type ScoreSubmission = {
+  game: string;
+  name: string;
+  score: number;
+  /** Simulated play time of the run. */
+  durationMs: number;
+  /** Game mode the score was set in, if the game has modes. */
+  mode?: string;
+};
+
+export type ValidationResult =
+  | { ok: true; value: ScoreSubmission }
+  | { ok: false; error: string };
+
+const MAX_NAME_LENGTH = 16;
+const MAX_DURATION_MS = 6 * 60 * 60 * 1000;
+
+const stepsIn = (ms: number) => Math.ceil(ms / STEP_MS);
+
+/** Fastest Pac-Man moves in either mode; scores from custom levels are never submitted. */
+const MAX_PAC_SPEED = Math.max(PAC_SPEED, ...BUNDLED_LEVELS.map((l) => l.pacmanSpeed));
+const MAX_POWER_PELLETS = Math.max(...BUNDLED_LEVELS.map((l) => l.maze.powerPellets.length));
+const MIN_LEVEL_PICKUPS = Math.min(
+  ...BUNDLED_LEVELS.map((l) => l.maze.pellets.length + l.maze.powerPellets.length)
+);
+const GHOST_POINTS = 10;
+
+/**
+ * Pac-Man: pickups are limited by distance travelled, ghost points by the
+ * power-ups – a frightened ghost can be eaten once, and comes back from the
+ * house no longer frightened, so each power-up is worth at most MAX_GHOSTS ghosts.
+ */
+const maxPacmanScore = (durationMs: number, mode = 'classic') => {
+  const distance = MAX_PAC_SPEED * stepsIn(durationMs);
+  let pickups: number;
+  let powerUps: number;
+  if (mode === 'maze') {
+    // Pellets are a tile apart; every level has to be cleared before the next
+    // one's power pellets turn up
+    pickups = 1 + Math.floor(distance / TILE_SIZE);
+    powerUps = MAX_POWER_PELLETS * (1 + Math.floor(pickups / MIN_LEVEL_PICKUPS));
+  } else {
+    // Cherries are at least a cherry apart, plus whatever could sit under Pac-Man
+    // at the start; the apex is there at the start and then comes back on a timer
+    pickups = NUM_CHERRIES + Math.floor(distance / CHERRY_SIZE);
+    powerUps = 1 + Math.floor(durationMs / MIN_APEX_RESPAWN_MS);
+  }
+  return pickups + MAX_GHOSTS * powerUps * GHOST_POINTS;
+};
+
+/** Flappy: one point per pipe, and pipes arrive on a fixed schedule for the mode. */
+const maxFlappyScore = (durationMs: number, mode = 'normal') => {
+  const flappyMode = mode as FlappyMode;
+  // Time for the first pipe to travel from the right edge past the bird, at the mode's top speed
+  const firstPassMs = ((FLAPPY_WIDTH + PIPE_WIDTH - BIRD_X) / maxPipeSpeed(flappyMode)) * STEP_MS;
+  if (durationMs < firstPassMs) return 0;
+  return 1 + Math.floor((durationMs - firstPassMs) / FLAPPY_MODES[flappyMode].pipeIntervalMs);
+};
+
+const MAX_SCORE: Record<string, (durationMs: number, mode?: string) => number> = {
+  pacman: maxPacmanScore,
+  flappy: maxFlappyScore,
+};
+
+/** Modes each game accepts; a submission without a mode gets the game's default. */
+const IS_MODE: Record<string, (mode: string) => boolean> = {
+  pacman: (mode) => mode === 'classic' || mode === 'maze',
+  flappy: isFlappyMode,
+};
+
+export const isKnownGame = (game: string) => Object.hasOwn(MAX_SCORE, game);
+
+/** Check shape and plausibility of an untrusted request body. */
+export function validateScoreSubmission(body: unknown): ValidationResult {
+  if (!body || typeof body !== 'object') return { ok: false, error: 'Expected a JSON object' };
+  const { game, name, score, durationMs, mode } = body as Record<string, unknown>;
+
+  if (typeof game !== 'string' || !isKnownGame(game)) {
+    return { ok: false, error: 'Unknown game' };
+  }
+  if (typeof name !== 'string' || !name.trim() || name.trim().length > MAX_NAME_LENGTH) {
+    return { ok: false, error: `Name must be 1-${MAX_NAME_LENGTH} characters` };
+  }
+  if (!Number.isInteger(score) || (score as number) < 0) {
+    return { ok: false, error: 'Score must be a non-negative integer' };
+  }
+  if (typeof durationMs !== 'number' || !(durationMs > 0) || durationMs > MAX_DURATION_MS) {
+    return { ok: false, error: 'Invalid duration' };
+  }
+  if (mode !== undefined && (typeof mode !== 'string' || !IS_MODE[game](mode))) {
+    return { ok: false, error: 'Unknown mode' };
+  }
+  if ((score as number) > MAX_SCORE[game](durationMs, mode)) {
+    return { ok: false, error: 'Score is not possible in the reported time' };
+  }
+
+  return { ok: true, value: { game, name: name.trim(), score: score as number, durationMs, mode } };
+}
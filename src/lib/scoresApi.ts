@@ -0,0 +1,24 @@
+import type { ScoreRecord } from '@/lib/server/scoreStore';
+import type { ScoreSubmission } from '@/lib/scoreValidation';
+
+/** Browser-side client for the shared leaderboard at /api/scores. */
+
+export type { ScoreRecord };
+
+export async function submitScore(submission: ScoreSubmission): Promise<ScoreRecord> {
+  const res = await fetch('/api/scores', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(submission),
+  });
+  const data = await res.json();
+  if (!res.ok) throw new Error(data.error ?? `Request failed (${res.status})`);
+  return data.score;
+}
+
+export async function fetchScores(game: string, limit = 10): Promise<ScoreRecord[]> {
+  const res = await fetch(`/api/scores?game=${encodeURIComponent(game)}&limit=${limit}`);
+  const data = await res.json();
+  if (!res.ok) throw new Error(data.error ?? `Request failed (${res.status})`);
+  return data.scores;
+}
@@ -0,0 +1,63 @@
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { ScoreSubmission } from '@/lib/scoreValidation';
+import { createFileScoreStore } from './scoreStore';
+
+const entry = (score: number, game = 'pacman'): ScoreSubmission => ({
+  game,
+  name: `p${score}`,
+  score,
+  durationMs: 60_000,
+});
+
+describe('createFileScoreStore', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'scores-'));
+    file = path.join(dir, 'nested', 'scores.json');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('starts empty when the file does not exist yet', async () => {
+    expect(await createFileScoreStore(file).list('pacman')).toEqual([]);
+  });
+
+  it('lists scores best first, per game, up to the limit', async () => {
+    const store = createFileScoreStore(file);
+    for (const score of [5, 40, 12]) await store.add(entry(score));
+    await store.add(entry(99, 'flappy'));
+
+    expect((await store.list('pacman')).map((s) => s.score)).toEqual([40, 12, 5]);
+    expect((await store.list('pacman', 2)).map((s) => s.score)).toEqual([40, 12]);
+    expect((await store.list('flappy')).map((s) => s.score)).toEqual([99]);
+  });
+
+  it('keeps scores on disk for the next store', async () => {
+    const record = await createFileScoreStore(file).add(entry(7));
+    expect(record).toMatchObject({ ...entry(7), id: expect.any(String), date: expect.any(String) });
+    expect(await createFileScoreStore(file).list('pacman')).toEqual([record]);
+    expect(JSON.parse(await readFile(file, 'utf8'))).toMatchObject({ version: 1 });
+  });
+
+  it('does not lose concurrent submissions', async () => {
+    const store = createFileScoreStore(file);
+    await Promise.all(Array.from({ length: 20 }, (_, i) => store.add(entry(i))));
+    expect(await store.list('pacman', 100)).toHaveLength(20);
+  });
+
+  it('keeps only the best 100 scores per game', async () => {
+    const store = createFileScoreStore(file);
+    await Promise.all(Array.from({ length: 110 }, (_, i) => store.add(entry(i))));
+    const scores = (await store.list('pacman', 1000)).map((s) => s.score);
+    expect(scores).toHaveLength(100);
+    expect(scores[0]).toBe(109);
+    expect(scores.at(-1)).toBe(10);
+  });
+});
@@ -0,0 +1,84 @@
+import { randomUUID } from 'node:crypto';
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { ScoreSubmission } from '@/lib/scoreValidation';
+
+/**
+ * Shared leaderboard storage backed by a single JSON file on local disk.
+ *
+ * Good enough for a team server and fully usable offline: point SCORES_FILE
+ * at a scratch file to run against a throwaway store.
+ */
+
+export type ScoreRecord = ScoreSubmission & {
+  id: string;
+  /** ISO timestamp of when the score was accepted. */
+  date: string;
+};
+
+export interface ScoreStore {
+  /** Best-first scores for a game. */
+  list(game: string, limit?: number): Promise<ScoreRecord[]>;
+  add(submission: ScoreSubmission): Promise<ScoreRecord>;
+}
+
+/** Scores kept per game; the rest are dropped so the file can't grow forever. */
+const MAX_SCORES_PER_GAME = 100;
+
+type ScoreFile = { version: 1; games: Record<string, ScoreRecord[]> };
+
+export function createFileScoreStore(file: string): ScoreStore {
+  // Writes are serialised so two concurrent submissions can't clobber each other
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const read = async (): Promise<ScoreFile> => {
+    try {
+      return JSON.parse(await readFile(file, 'utf8')) as ScoreFile;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return { version: 1, games: {} };
+      throw err;
+    }
+  };
+
+  const write = async (data: ScoreFile) => {
+    await mkdir(path.dirname(file), { recursive: true });
+    // Write-then-rename so a crash never leaves half a file behind
+    const tmp = `${file}.tmp`;
+    await writeFile(tmp, JSON.stringify(data, null, 2));
+    await rename(tmp, file);
+  };
+
+  return {
+    async list(game, limit = 10) {
+      await queue;
+      const data = await read();
+      return (data.games[game] ?? []).slice(0, limit);
+    },
+
+    add(submission) {
+      const task = queue.then(async () => {
+        const data = await read();
+        const record: ScoreRecord = { ...submission, id: randomUUID(), date: new Date().toISOString() };
+        data.games[submission.game] = [...(data.games[submission.game] ?? []), record]
+          .sort((a, b) => b.score - a.score)
+          .slice(0, MAX_SCORES_PER_GAME);
+        await write(data);
+        return record;
+      });
+      queue = task.catch(() => undefined);
+      return task;
+    },
+  };
+}
+
+let defaultStore: ScoreStore | null = null;
+
+/** Process-wide store at $SCORES_FILE, or data/scores.json in the project. */
+export function getScoreStore() {
+  if (!defaultStore) {
+    defaultStore = createFileScoreStore(
+      process.env.SCORES_FILE ?? path.join(process.cwd(), 'data', 'scores.json')
+    );
+  }
+  return defaultStore;
+}
@@ -0,0 +1,93 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Achievement, achievementUnlocks, getUnlockedAchievements } from './achievements';
+import { createRunTracker, getGameStats } from './stats';
+
+/** Just enough of localStorage for the stores. */
+const memoryStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+  };
+};
+
+describe('run tracking', () => {
+  let unlocked: Achievement[];
+  let off: () => void;
+
+  beforeEach(() => {
+    vi.stubGlobal('window', { localStorage: memoryStorage() });
+    unlocked = [];
+    off = achievementUnlocks.on('unlocked', (a) => unlocked.push(a));
+  });
+
+  afterEach(() => {
+    off();
+    vi.unstubAllGlobals();
+  });
+
+  it('adds finished runs to the lifetime stats', () => {
+    for (const score of [3, 12]) {
+      const run = createRunTracker('flappy');
+      for (let i = 0; i < score; i++) run.count('pipes');
+      run.best('flaps', 4);
+      run.finish(score, score * 1000);
+    }
+
+    expect(getGameStats('flappy')).toEqual({
+      runs: 2,
+      playMs: 15000,
+      longestMs: 12000,
+      bestScore: 12,
+      totals: { pipes: 15 },
+      bests: { flaps: 4 },
+      histogram: { 0: 1, 10: 1 },
+    });
+    expect(getGameStats('pacman').runs).toBe(0);
+  });
+
+  it('leaves runs that never finish out of the stats', () => {
+    createRunTracker('flappy').count('pipes');
+    expect(getGameStats('flappy').runs).toBe(0);
+  });
+
+  it('unlocks an achievement as soon as it is earned, once', () => {
+    const run = createRunTracker('pacman');
+    run.best('ghostsPerPowerUp', 2);
+    expect(unlocked).toEqual([]);
+    run.best('ghostsPerPowerUp', 3);
+    expect(unlocked.map((a) => a.id)).toEqual(['pacman-clean-sweep']);
+
+    const next = createRunTracker('pacman');
+    next.best('ghostsPerPowerUp', 3);
+    next.finish(0, 1000);
+    expect(unlocked).toHaveLength(1);
+    expect(Object.keys(getUnlockedAchievements())).toEqual(['pacman-clean-sweep']);
+  });
+
+  it('reads the unlocked achievements once per run, not on every count', () => {
+    const run = createRunTracker('pacman');
+    const getItem = vi.spyOn(window.localStorage, 'getItem');
+    const setItem = vi.spyOn(window.localStorage, 'setItem');
+    for (let i = 0; i < 50; i++) run.count('pellets');
+    expect(getItem).not.toHaveBeenCalled();
+    expect(setItem).not.toHaveBeenCalled();
+  });
+
+  it('counts lifetime totals towards achievements', () => {
+    const first = createRunTracker('pacman');
+    first.count('ghosts', 99);
+    first.finish(990, 60000);
+    expect(unlocked).toEqual([]);
+
+    createRunTracker('pacman').count('ghosts');
+    expect(unlocked.map((a) => a.id)).toEqual(['pacman-ghostbuster']);
+  });
+
+  it('discards stored stats that are not usable', () => {
+    window.localStorage.setItem('apex-game:stats', JSON.stringify({ version: 1, games: { flappy: { runs: -4 } } }));
+    expect(getGameStats('flappy').runs).toBe(0);
+    window.localStorage.setItem('apex-game:stats', '{not json');
+    expect(getGameStats('flappy').runs).toBe(0);
+  });
+});
@@ -0,0 +1,174 @@
+import { createAchievementChecker } from './achievements';
+import { isRecord, StoredBlob, versionedStorage } from './storage';
+
+/**
+ * Lifetime statistics per game, kept in localStorage next to the high scores.
+ *
+ * During a run the game counts what happens on a RunTracker (see
+ * connectPacmanStats and connectFlappyStats); when the run ends it is folded
+ * into the game's totals. Counters are free-form names ("cherries", "pipes"),
+ * so a game can start counting something new without a schema change. When
+ * the stored shape does change, bump SCHEMA_VERSION and add a migration (see
+ * ./storage).
+ */
+
+const STORAGE_KEY = 'apex-game:stats';
+const SCHEMA_VERSION = 1;
+
+/** What one run added up to so far. */
+export type RunStats = {
+  score: number;
+  /** Simulated play time, set when the run ends. */
+  durationMs: number;
+  /** Summed into the lifetime totals, e.g. cherries eaten. */
+  counts: Record<string, number>;
+  /** Best-of values, e.g. the level reached; the lifetime keeps the highest. */
+  bests: Record<string, number>;
+};
+
+export type GameStats = {
+  runs: number;
+  playMs: number;
+  longestMs: number;
+  bestScore: number;
+  totals: Record<string, number>;
+  bests: Record<string, number>;
+  /** Runs per score bucket, keyed by the bucket's lowest score (see SCORE_BUCKET). */
+  histogram: Record<string, number>;
+};
+
+type StatsStore = { games: Record<string, GameStats> };
+
+export const emptyGameStats = (): GameStats => ({
+  runs: 0,
+  playMs: 0,
+  longestMs: 0,
+  bestScore: 0,
+  totals: {},
+  bests: {},
+  histogram: {},
+});
+
+/** Width of a score histogram bar per game. */
+export const SCORE_BUCKET: Record<string, number> = { pacman: 25, flappy: 5 };
+const DEFAULT_SCORE_BUCKET = 10;
+
+export const scoreBucket = (game: string) => SCORE_BUCKET[game] ?? DEFAULT_SCORE_BUCKET;
+
+/** A counter shown on the stats page. */
+export type StatLine = {
+  key: string;
+  label: string;
+  /** A lifetime total, or the best single run. */
+  kind: 'total' | 'best';
+  /** Milliseconds, shown as a duration. */
+  time?: boolean;
+};
+
+/** What the stats page lists per game, beyond runs, play time and best score. */
+export const STAT_LINES: Record<string, readonly StatLine[]> = {
+  pacman: [
+    { key: 'cherries', label: 'Cherries eaten', kind: 'total' },
+    { key: 'pellets', label: 'Pellets eaten', kind: 'total' },
+    { key: 'ghosts', label: 'Ghosts eaten', kind: 'total' },
+    { key: 'powerUps', label: 'Power-ups', kind: 'total' },
+    { key: 'level', label: 'Highest level', kind: 'best' },
+    { key: 'ghostsPerPowerUp', label: 'Most ghosts in one power-up', kind: 'best' },
+    { key: 'msWithoutPowerUp', label: 'Longest without a power-up', kind: 'best', time: true },
+  ],
+  flappy: [
+    { key: 'pipes', label: 'Pipes passed', kind: 'total' },
+    { key: 'flaps', label: 'Flaps', kind: 'total' },
+  ],
+};
+
+const count = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : 0);
+
+const counters = (value: unknown) => {
+  const result: Record<string, number> = {};
+  if (isRecord(value)) {
+    for (const [key, n] of Object.entries(value)) result[key] = count(n);
+  }
+  return result;
+};
+
+/** Trust a stored blob only as far as its shape checks out; bad numbers become 0. */
+const validate = (data: StoredBlob): StatsStore => {
+  const games: Record<string, GameStats> = {};
+  if (isRecord(data.games)) {
+    for (const [game, stats] of Object.entries(data.games)) {
+      if (!isRecord(stats)) continue;
+      games[game] = {
+        runs: count(stats.runs),
+        playMs: count(stats.playMs),
+        longestMs: count(stats.longestMs),
+        bestScore: count(stats.bestScore),
+        totals: counters(stats.totals),
+        bests: counters(stats.bests),
+        histogram: counters(stats.histogram),
+      };
+    }
+  }
+  return { games };
+};
+
+const storage = versionedStorage(STORAGE_KEY, SCHEMA_VERSION, validate);
+
+const load = () => storage.load() ?? { games: {} };
+
+export const getGameStats = (game: string): GameStats => load().games[game] ?? emptyGameStats();
+
+/** Fold a finished run into the game's lifetime stats. */
+function recordRun(game: string, run: RunStats) {
+  const store = load();
+  const stats = store.games[game] ?? emptyGameStats();
+  const bucket = String(Math.floor(run.score / scoreBucket(game)) * scoreBucket(game));
+
+  stats.runs += 1;
+  stats.playMs += run.durationMs;
+  stats.longestMs = Math.max(stats.longestMs, run.durationMs);
+  stats.bestScore = Math.max(stats.bestScore, run.score);
+  for (const [key, n] of Object.entries(run.counts)) stats.totals[key] = (stats.totals[key] ?? 0) + n;
+  for (const [key, n] of Object.entries(run.bests)) stats.bests[key] = Math.max(stats.bests[key] ?? 0, n);
+  stats.histogram[bucket] = (stats.histogram[bucket] ?? 0) + 1;
+
+  store.games[game] = stats;
+  // If storage is full or disabled, the run just isn't counted
+  storage.save(store);
+}
+
+/* ---------- Runs ----------- */
+
+export type RunTracker = {
+  count(key: string, n?: number): void;
+  /** Keep `value` if it beats the run's best so far. */
+  best(key: string, value: number): void;
+  /** The run is over: check achievements once more and add it to the lifetime stats. */
+  finish(score: number, durationMs: number): void;
+};
+
+/** Start counting a run; achievements are checked as the counters change. */
+export function createRunTracker(game: string): RunTracker {
+  const lifetime = getGameStats(game);
+  const run: RunStats = { score: 0, durationMs: 0, counts: {}, bests: {} };
+  const checkAchievements = createAchievementChecker(game);
+  const check = () => checkAchievements({ run, lifetime });
+
+  return {
+    count(key, n = 1) {
+      run.counts[key] = (run.counts[key] ?? 0) + n;
+      check();
+    },
+    best(key, value) {
+      if (value <= (run.bests[key] ?? 0)) return;
+      run.bests[key] = value;
+      check();
+    },
+    finish(score, durationMs) {
+      run.score = score;
+      run.durationMs = durationMs;
+      check();
+      recordRun(game, run);
+    },
+  };
+}
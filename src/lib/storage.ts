@@ -0,0 +1,61 @@
+/**
+ * Versioned blobs in localStorage, shared by everything that keeps player data
+ * (high scores, key bindings, audio settings).
+ *
+ * A value is saved as `{ version, ...value }`. When its shape changes, bump the
+ * version and add a migration that lifts blobs of the previous version; older
+ * blobs are migrated step by step and then checked by `validate`. Anything
+ * unreadable, from an unknown version or rejected by `validate` is discarded
+ * rather than crashing the game.
+ */
+
+export type StoredBlob = Record<string, unknown>;
+
+export type VersionedStorage<T> = {
+  /** The stored value, or null when there is none or it can't be used. */
+  load(): T | null;
+  /** Persist `value`; false when storage is full or disabled (private mode). */
+  save(value: T): boolean;
+};
+
+export const isRecord = (value: unknown): value is StoredBlob =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * `validate` gets a blob of the current `version` and returns the value, or
+ * null to throw it away. `migrations[n]` turns a version-n blob into version n + 1.
+ */
+export function versionedStorage<T extends object>(
+  key: string,
+  version: number,
+  validate: (data: StoredBlob) => T | null,
+  migrations: Record<number, (data: StoredBlob) => StoredBlob> = {}
+): VersionedStorage<T> {
+  return {
+    load() {
+      if (typeof window === 'undefined') return null;
+      try {
+        const raw = window.localStorage.getItem(key);
+        if (!raw) return null;
+        let data: unknown = JSON.parse(raw);
+        if (!isRecord(data)) return null;
+        let from = data.version;
+        while (typeof from === 'number' && from < version && migrations[from] && isRecord(data)) {
+          data = migrations[from](data);
+          from += 1;
+        }
+        return from === version && isRecord(data) ? validate(data) : null;
+      } catch {
+        return null;
+      }
+    },
+    save(value) {
+      try {
+        window.localStorage.setItem(key, JSON.stringify({ ...value, version }));
+        return true;
+      } catch {
+        return false;
+      }
+    },
+  };
+}
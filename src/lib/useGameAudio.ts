@@ -0,0 +1,18 @@
+'use client';
+
+import { useEffect } from 'react';
+import { connectAudio, soundCues } from '@/lib/audio/engine';
+import type { MusicTrack } from '@/lib/audio/synth';
+
+/** Hook a game up to the audio engine and loop `track` while `musicOn`. */
+export function useGameAudio(track: MusicTrack, musicOn: boolean) {
+  useEffect(() => {
+    connectAudio();
+  }, []);
+
+  useEffect(() => {
+    if (!musicOn) return;
+    soundCues.emit('music', track);
+    return () => soundCues.emit('music', null);
+  }, [track, musicOn]);
+}
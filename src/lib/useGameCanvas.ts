@@ -0,0 +1,69 @@
+'use client';
+
+import { RefObject, useCallback, useEffect, useRef } from 'react';
+import { canvasToGame, drawInViewport, fitViewport, identityViewport, Viewport } from '@/lib/viewport';
+
+/**
+ * Keep a canvas' backing store matched to its CSS size × devicePixelRatio and
+ * the field fitted into it (see lib/viewport).
+ *
+ * `draw(ctx, render)` runs a renderer that works in game units, and
+ * `toGame(clientX, clientY)` maps a pointer position back into the field.
+ */
+export function useGameCanvas(canvasRef: RefObject<HTMLCanvasElement | null>, gameWidth: number, gameHeight: number) {
+  const viewport = useRef<Viewport>(identityViewport(gameWidth, gameHeight));
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const resize = () => {
+      const dpr = window.devicePixelRatio || 1;
+      // Client size leaves out the border
+      const width = canvas.clientWidth;
+      const height = canvas.clientHeight;
+      if (!width || !height) return;
+      canvas.width = Math.round(width * dpr);
+      canvas.height = Math.round(height * dpr);
+      viewport.current = fitViewport(gameWidth, gameHeight, width, height, dpr);
+    };
+
+    const observer = new ResizeObserver(resize);
+    observer.observe(canvas);
+
+    // Moving the window to a screen with another pixel density fires no resize
+    let dprQuery: MediaQueryList | null = null;
+    const watchDpr = () => {
+      dprQuery?.removeEventListener('change', onDprChange);
+      dprQuery = window.matchMedia(`(resolution: ${window.devicePixelRatio || 1}dppx)`);
+      dprQuery.addEventListener('change', onDprChange);
+    };
+    const onDprChange = () => {
+      resize();
+      watchDpr();
+    };
+    watchDpr();
+    resize();
+
+    return () => {
+      observer.disconnect();
+      dprQuery?.removeEventListener('change', onDprChange);
+    };
+  }, [canvasRef, gameWidth, gameHeight]);
+
+  const draw = useCallback((ctx: CanvasRenderingContext2D, render: () => void) => {
+    drawInViewport(ctx, viewport.current, render);
+  }, []);
+
+  const toGame = useCallback(
+    (clientX: number, clientY: number) => {
+      const canvas = canvasRef.current;
+      if (!canvas) return canvasToGame(viewport.current, clientX, clientY);
+      const rect = canvas.getBoundingClientRect();
+      return canvasToGame(viewport.current, clientX - rect.left - canvas.clientLeft, clientY - rect.top - canvas.clientTop);
+    },
+    [canvasRef]
+  );
+
+  return { draw, toGame };
+}
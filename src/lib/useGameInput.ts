@@ -0,0 +1,142 @@
+'use client';
+
+import { RefObject, useEffect, useRef, useState } from 'react';
+import {
+  actionForKey,
+  BINDINGS_CHANGE_EVENT,
+  GameAction,
+  getBindings,
+  MoveAction,
+  readGamepads,
+  swipeDirection,
+} from '@/lib/input';
+
+/**
+ * Call `onAction` whenever one of `actions` is triggered, by a bound key or by
+ * a gamepad button/stick being pushed (once per push, not while held).
+ *
+ * Keys typed into text fields are left alone, and handled keys don't scroll
+ * the page. `onAction` may change on every render; the latest one is used.
+ */
+export function useGameInput(actions: readonly GameAction[], onAction: (action: GameAction) => void) {
+  const handler = useRef(onAction);
+  handler.current = onAction;
+  const actionsKey = actions.join(' ');
+
+  useEffect(() => {
+    const wanted = actionsKey.split(' ') as GameAction[];
+    let bindings = getBindings();
+    const reload = () => {
+      bindings = getBindings();
+    };
+
+    const handleKey = (e: KeyboardEvent) => {
+      // Typing a name on the game-over overlay must not control the game
+      if (e.target instanceof HTMLInputElement) return;
+      const action = actionForKey(bindings, e.code, wanted);
+      if (!action) return;
+      e.preventDefault();
+      handler.current(action);
+    };
+
+    // Gamepads have no events for buttons, so poll them every frame
+    let held = new Set<GameAction>();
+    let frame = 0;
+    const poll = () => {
+      const now = readGamepads();
+      for (const action of now) {
+        if (!held.has(action) && wanted.includes(action)) handler.current(action);
+      }
+      held = now;
+      frame = requestAnimationFrame(poll);
+    };
+    poll();
+
+    window.addEventListener('keydown', handleKey);
+    window.addEventListener(BINDINGS_CHANGE_EVENT, reload);
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener('keydown', handleKey);
+      window.removeEventListener(BINDINGS_CHANGE_EVENT, reload);
+    };
+  }, [actionsKey]);
+}
+
+/** Whether the main pointer is a finger rather than a mouse, following the `pointer: coarse` media query. */
+export function useCoarsePointer() {
+  const [coarse, setCoarse] = useState(false);
+
+  useEffect(() => {
+    const query = window.matchMedia('(pointer: coarse)');
+    const update = () => setCoarse(query.matches);
+    update();
+    query.addEventListener('change', update);
+    return () => query.removeEventListener('change', update);
+  }, []);
+
+  return coarse;
+}
+
+export type PointerGestures = {
+  /** Pointer went down – for games that react right away, like flapping. */
+  onPress?: (e: PointerEvent) => void;
+  /** Pointer lifted without having swiped. */
+  onTap?: (e: PointerEvent) => void;
+  /** Pointer dragged at least SWIPE_MIN_PX; a long drag can swipe several times. */
+  onSwipe?: (direction: MoveAction) => void;
+};
+
+/** Presses on these (overlay buttons, the name form) are theirs, not the game's. */
+const INTERACTIVE = 'button, a, input, select, form';
+
+/**
+ * Mouse, touch and pen input on `ref`'s element, reported as gestures.
+ * Handlers may change on every render; the latest ones are used.
+ *
+ * Give the element `touch-action: none` so the browser doesn't scroll or zoom
+ * the page instead.
+ */
+export function usePointerGestures(ref: RefObject<HTMLElement | null>, gestures: PointerGestures) {
+  const handlers = useRef(gestures);
+  handlers.current = gestures;
+
+  useEffect(() => {
+    const el = ref.current;
+    if (!el) return;
+
+    // Where the current drag started, or last swiped from
+    let origin: { id: number; x: number; y: number; swiped: boolean } | null = null;
+
+    const handleDown = (e: PointerEvent) => {
+      if (!e.isPrimary || (e.target instanceof Element && e.target.closest(INTERACTIVE))) return;
+      origin = { id: e.pointerId, x: e.clientX, y: e.clientY, swiped: false };
+      handlers.current.onPress?.(e);
+    };
+    const handleMove = (e: PointerEvent) => {
+      if (!origin || e.pointerId !== origin.id) return;
+      const direction = swipeDirection(e.clientX - origin.x, e.clientY - origin.y);
+      if (!direction) return;
+      origin = { ...origin, x: e.clientX, y: e.clientY, swiped: true };
+      handlers.current.onSwipe?.(direction);
+    };
+    const handleUp = (e: PointerEvent) => {
+      if (!origin || e.pointerId !== origin.id) return;
+      if (!origin.swiped) handlers.current.onTap?.(e);
+      origin = null;
+    };
+    const handleCancel = () => {
+      origin = null;
+    };
+
+    el.addEventListener('pointerdown', handleDown);
+    el.addEventListener('pointermove', handleMove);
+    el.addEventListener('pointerup', handleUp);
+    el.addEventListener('pointercancel', handleCancel);
+    return () => {
+      el.removeEventListener('pointerdown', handleDown);
+      el.removeEventListener('pointermove', handleMove);
+      el.removeEventListener('pointerup', handleUp);
+      el.removeEventListener('pointercancel', handleCancel);
+    };
+  }, [ref]);
+}
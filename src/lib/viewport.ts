@@ -0,0 +1,86 @@
+import type { CSSProperties } from 'react';
+
+/**
+ * Fitting a game's fixed logical field (e.g. 500×500) onto a canvas of any
+ * size. Renderers keep drawing in field coordinates; the canvas transform
+ * scales them to the CSS size, keeps the aspect ratio with letterbox bars and
+ * renders at devicePixelRatio so sprites stay sharp on high-DPI screens.
+ */
+
+export type Viewport = {
+  /** Field size in game units. */
+  gameWidth: number;
+  gameHeight: number;
+  /** CSS px per game unit. */
+  scale: number;
+  /** Where the field starts inside the canvas, in CSS px (the letterbox bars). */
+  offsetX: number;
+  offsetY: number;
+  /** Device pixels per CSS px. */
+  dpr: number;
+};
+
+/** Fit the field into a `cssWidth`×`cssHeight` canvas, centred. */
+export function fitViewport(
+  gameWidth: number,
+  gameHeight: number,
+  cssWidth: number,
+  cssHeight: number,
+  dpr = 1
+): Viewport {
+  const scale = Math.min(cssWidth / gameWidth, cssHeight / gameHeight) || 1;
+  return {
+    gameWidth,
+    gameHeight,
+    scale,
+    offsetX: (cssWidth - gameWidth * scale) / 2,
+    offsetY: (cssHeight - gameHeight * scale) / 2,
+    dpr,
+  };
+}
+
+/** 1:1 viewport, used until the canvas has been measured. */
+export const identityViewport = (gameWidth: number, gameHeight: number) =>
+  fitViewport(gameWidth, gameHeight, gameWidth, gameHeight);
+
+const LETTERBOX_COLOR = '#000';
+
+/**
+ * Draw one frame: paint the letterbox bars, then run `draw` with the
+ * transform set so it can work in game units, clipped to the field.
+ */
+export function drawInViewport(ctx: CanvasRenderingContext2D, vp: Viewport, draw: () => void) {
+  const { canvas } = ctx;
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.fillStyle = LETTERBOX_COLOR;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  ctx.save();
+  const k = vp.scale * vp.dpr;
+  ctx.setTransform(k, 0, 0, k, vp.offsetX * vp.dpr, vp.offsetY * vp.dpr);
+  ctx.beginPath();
+  ctx.rect(0, 0, vp.gameWidth, vp.gameHeight);
+  ctx.clip();
+  draw();
+  ctx.restore();
+}
+
+/** Map a point on the canvas element (CSS px from its top-left corner) into game units. */
+export const canvasToGame = (vp: Viewport, x: number, y: number) => ({
+  x: (x - vp.offsetX) / vp.scale,
+  y: (y - vp.offsetY) / vp.scale,
+});
+
+/**
+ * Size for the box holding a game canvas and its overlays: as wide as
+ * `maxWidth` allows, but no taller than `maxHeight`, at the field's aspect ratio.
+ */
+export const fieldBoxStyle = (
+  gameWidth: number,
+  gameHeight: number,
+  maxHeight = '85dvh',
+  maxWidth = '100%'
+): CSSProperties => ({
+  width: `min(${maxWidth}, calc(${maxHeight} * ${gameWidth / gameHeight}))`,
+  aspectRatio: `${gameWidth} / ${gameHeight}`,
+});